@@ -4,6 +4,12 @@
 import { runPipeline } from "./lib/pipeline";
 import { config } from "./config";
 import { ScheduleLogger } from "./lib/schedule-logger";
+import { cache } from "./lib/cache";
+import { applyProfileFromArgs, getActiveProfile } from "./lib/profile";
+import { validateConfig, formatIssues, checkConfigAtStartup } from "./lib/config-check";
+import { applySecrets, describeSecretSources } from "./lib/secrets";
+import { createRunId } from "./lib/run-log";
+import { startServer } from "./lib/server";
 
 interface CliArgs {
   platforms?: string[];
@@ -64,9 +70,13 @@ TrendGen CLI - Business Content Trend Analysis
 
 Usage:
   bun run cli.ts [options]
+  bun run cli.ts cache <stats|clear|prune> [prefix]
+  bun run cli.ts config check [--image]
+  bun run cli.ts serve [--host <host>] [--port <port>]
 
 Options:
-  --platforms <list>    Comma-separated: twitter,instagram,facebook (default: all)
+  --profile <name>       Run as a brand from config.ts profiles (own DB, logs and caps)
+  --platforms <list>    Comma-separated: twitter,twitter_thread,instagram,facebook (default: all)
   --strategy <type>      value_first, authority_building, or direct_sales
   --keywords <list>      Comma-separated keywords (skip AI generation)
   --image                Force image generation (ignores imageChance and enabled)
@@ -74,24 +84,138 @@ Options:
   --quiet                Suppress stderr progress, only JSON on stdout
   --help, -h             Show this help message
 
+Config commands:
+  config check           Validate config.ts and list every problem (exit 1 on errors)
+
+Serve:
+  serve                  Start the HTTP API (POST /runs, GET /runs/:id, /posts, /queue,
+                         POST /posts/:id/publish) — needs server.token, see config.example.ts
+
+Cache commands:
+  cache stats            Show backend, entry counts and expired entries per source
+  cache clear [prefix]   Delete all entries, or only keys starting with prefix (e.g. news-articles)
+  cache prune            Delete expired entries only
+
 Examples:
   bun run cli.ts --platforms twitter
   bun run cli.ts --platforms twitter,instagram
   bun run cli.ts --strategy direct_sales --quiet > output.json
   bun run cli.ts --keywords "bitcoin,ethereum" --platforms twitter
+  bun run cli.ts --profile autogen --platforms facebook
+  bun run cli.ts cache stats
 `);
 }
 
+function runConfigCommand(args: string[]): number {
+  const [action] = args;
+  if (action !== "check") {
+    console.error(`Unknown config command: ${action ?? "(none)"} — expected check`);
+    return 1;
+  }
+
+  const issues = validateConfig({ imageRequired: args.includes("--image") });
+  const errors = issues.filter(i => i.level === "error").length;
+  const profile = getActiveProfile();
+
+  console.log(`Checking config.ts${profile ? ` (profile: ${profile})` : ""}`);
+  console.log("\nCredentials:");
+  describeSecretSources().forEach(line => console.log(`  ${line}`));
+  console.log("");
+  if (issues.length === 0) {
+    console.log("OK — no problems found");
+    return 0;
+  }
+  console.log(formatIssues(issues));
+  console.log(`\n${errors} error(s), ${issues.length - errors} warning(s)`);
+  return errors > 0 ? 1 : 0;
+}
+
+function runServeCommand(args: string[]): void {
+  const hostIndex = args.indexOf("--host");
+  const portIndex = args.indexOf("--port");
+  const port = portIndex !== -1 ? Number(args[portIndex + 1]) : undefined;
+  if (port !== undefined && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+    console.error(`Invalid --port: ${args[portIndex + 1]}`);
+    process.exit(1);
+  }
+  startServer({ host: hostIndex !== -1 ? args[hostIndex + 1] : undefined, port });
+}
+
+function runCacheCommand(args: string[]): number {
+  const [action, prefix] = args;
+
+  switch (action) {
+    case "stats": {
+      const stats = cache.stats();
+      console.log(`Backend: ${stats.backend}`);
+      console.log(`Entries: ${stats.entries} (${stats.expired} expired)`);
+      for (const [name, count] of Object.entries(stats.byPrefix).sort()) {
+        console.log(`  ${name.padEnd(20)} ${count}`);
+      }
+      return 0;
+    }
+    case "clear": {
+      const removed = cache.clear(prefix);
+      console.log(`Cleared ${removed} entr${removed === 1 ? "y" : "ies"}${prefix ? ` matching "${prefix}"` : ""}`);
+      return 0;
+    }
+    case "prune": {
+      const removed = cache.prune();
+      console.log(`Pruned ${removed} expired entr${removed === 1 ? "y" : "ies"}`);
+      return 0;
+    }
+    default:
+      console.error(`Unknown cache command: ${action ?? "(none)"} — expected stats, clear or prune`);
+      return 1;
+  }
+}
+
 async function main() {
-  // Log that CLI was triggered
-  await ScheduleLogger.logTriggered(config.schedule.enabled, config.schedule.intervalHours);
+  let argv = (typeof Bun !== 'undefined' ? Bun.argv : process.argv).slice(2);
+
+  // Profile first — it decides where the DB and logs live — then credentials on top of it
+  try {
+    argv = applyProfileFromArgs(argv);
+    applySecrets();
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
+
+  // Maintenance subcommands skip the schedule steps and jitter
+  if (argv[0] === "cache") {
+    process.exit(runCacheCommand(argv.slice(1)));
+  }
+  if (argv[0] === "config") {
+    process.exit(runConfigCommand(argv.slice(1)));
+  }
+
+  if (!argv.includes("--quiet")) {
+    describeSecretSources(false).forEach(line => console.error(`[SECRETS] ${line}`));
+  }
+
+  // Stop on a broken config before anything is paid for
+  if (!checkConfigAtStartup({ imageRequired: argv.includes("--image"), serving: argv[0] === "serve" })) {
+    process.exit(1);
+  }
+
+  // Long-running — the process stays up until it is stopped
+  if (argv[0] === "serve") {
+    runServeCommand(argv.slice(1));
+    return;
+  }
+
+  // Log that CLI was triggered — the scheduling steps share the pipeline's run ID
+  const runId = createRunId();
+  const scheduleLog = new ScheduleLogger(runId);
+  scheduleLog.logTriggered(config.schedule.enabled, config.schedule.intervalHours);
 
   // Random delay scheduling — generated here in code, not by OpenClaw
   if (config.schedule.enabled && config.schedule.randomDelayMinutes) {
     const maxDelay = config.schedule.intervalHours * 60 - 1;
     const delayMins = Math.floor(Math.random() * maxDelay) + 1;
     console.error(`[SCHEDULE] Waiting ${delayMins} minute(s) before running...`);
-    await ScheduleLogger.logDelay(delayMins, config.schedule.intervalHours);
+    scheduleLog.logDelay(delayMins, config.schedule.intervalHours);
     await new Promise(resolve => setTimeout(resolve, delayMins * 60 * 1000));
   }
 
@@ -108,10 +232,11 @@ async function main() {
     console.error(`[JITTER] Go! Running pipeline.`);
   }
 
-  await ScheduleLogger.logRunStart();
+  scheduleLog.logRunStart();
 
-  const args = parseArgs((typeof Bun !== 'undefined' ? Bun.argv : process.argv).slice(2));
+  const args = parseArgs(argv);
   const result = await runPipeline({
+    runId,
     platforms: args.platforms,
     strategy: args.strategy,
     keywords: args.keywords,
@@ -121,7 +246,7 @@ async function main() {
   });
 
   // Log schedule outcome
-  await ScheduleLogger.logRunResult({
+  scheduleLog.logRunResult({
     status: result.status,
     durationMs: result.meta.processingTimeMs,
     contentPieces: result.meta.contentPieces,
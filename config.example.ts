@@ -6,6 +6,9 @@
 //   EXAMPLE B: Local business (@AutoGenDigital style)   ← commented out
 //
 // The pipeline adapts to whatever you put in business{} — crypto, trades, SaaS, whatever.
+//
+// Running several brands from one install? Keep your main brand here and add the others
+// under `profiles` at the bottom of this file, then pass --profile <name>.
 
 export const config = {
   // === BUSINESS PROFILE ===
@@ -20,10 +23,11 @@ export const config = {
     targetAudience: "Crypto degens, futures traders, retail investors, memecoin hunters, and AI/Web3 enthusiasts aged 18-45 looking for alpha",
     servicesOffered: "Breaking crypto news, actionable trading tips & futures strategies, AI model news (Claude, OpenAI, Gemini), AI-tech breakdowns, market alpha calls, volatility plays, and degen opportunities",
     personality: "High-energy degen, witty no-BS straight talk, alpha-leaking, meme-savvy, bullish when it counts, community-first",
-    postType: "value_first" as const,
+    postType: "value_first" as "value_first" | "authority_building" | "direct_sales",
     //   value_first        — Helpful/educational content, no selling (builds trust & engagement)
     //   authority_building — Showcase expertise, subtly position your services as solutions
     //   direct_sales       — Clear CTA-driven posts to drive immediate action/conversions
+    timezone: "Europe/London",             // IANA name — local days and hours (daemon, query rotation, strategy buckets)
   },
 
   // --- EXAMPLE B: Local Business (uncomment to use) ---
@@ -39,17 +43,25 @@ export const config = {
   // },
 
   // === AI PROVIDER ===
+  // Switch vendors by changing provider + model — no code edits needed.
+  //   deepseek   — https://platform.deepseek.com         (model: "deepseek-chat")
+  //   anthropic  — https://console.anthropic.com         (model: "claude-sonnet-4-5")
+  //   openai     — https://platform.openai.com           (model: "gpt-4o-mini")
+  //   local      — llama.cpp / Ollama OpenAI-compatible server, apiKey can stay empty
+  //                (llama.cpp: http://localhost:8080/v1, Ollama: http://localhost:11434/v1)
   ai: {
-    provider: "deepseek" as const,
+    provider: "deepseek" as "deepseek" | "anthropic" | "openai" | "local",
     apiKey: "",                            // Get from https://platform.deepseek.com
     model: "deepseek-chat",
     maxTokens: 4096,
+    baseUrl: "",                           // optional — override the provider's default endpoint
   },
 
   // === DATA SOURCES ===
   sources: {
     googleTrends: true,
     xcom: true,
+    coingecko: true,                       // trending coins + 24h price moves (free, no key) — set false for non-crypto niches
     reddit: {
       enabled: false,
       clientId: "",
@@ -72,6 +84,23 @@ export const config = {
         // "https://startups.co.uk/feed/",
         // "https://smallbusiness.co.uk/feed/",
       ],
+      fetchConcurrency: 4,                 // feeds downloaded at once
+      feedTimeoutSeconds: 10,              // a feed (or NewsAPI) still loading after this is skipped for the run
+      // The same story from several outlets is merged into one article; wider coverage ranks higher
+      clustering: {
+        enabled: true,
+        titleSimilarity: 0.5,              // 0-1 headline overlap needed to merge (higher = stricter)
+        windowHours: 36,                   // only merge articles published this close together
+        coverageBoost: 0.1,                // relevance added per extra source, up to 3 extra
+      },
+      // Fetch the top-ranked articles' pages and pull out a summary + key facts, so posts
+      // are grounded in what the article says rather than the headline alone
+      extraction: {
+        enabled: false,
+        topArticles: 3,                    // articles fetched per run (cached per URL for 24h)
+        timeoutSeconds: 10,
+        maxFacts: 5,                       // fact sentences kept per article
+      },
       // Terms for scoring article relevance — higher score = more relevant to you
       scoringTerms: {
         industry: [
@@ -90,6 +119,29 @@ export const config = {
     },
   },
 
+  // === CACHE ===
+  // Source results (Google, news, Reddit, X trends, CoinGecko) are cached for 2-4 hours.
+  //   memory — lost when the process exits (every CLI run starts cold)
+  //   sqlite — persisted in <dir>/cache.db, shared across runs (recommended for scheduled runs)
+  //   file   — one JSON file per entry in <dir>/entries/
+  // Manage it with: bun run cli -- cache stats|clear|prune
+  cache: {
+    backend: "sqlite" as "memory" | "sqlite" | "file",
+    dir: ".cache",                         // relative to the working directory
+  },
+
+  // === DUPLICATE DETECTION ===
+  // Every generated post is compared (TF-IDF cosine) against all posts in x_post_data.db —
+  // published, dry-run and still queued. Scores run 0 (nothing shared) to 1 (identical).
+  //   regenerate — ask the model for a different take, up to maxRegenerations times, then drop it
+  //   reject     — drop it straight away
+  duplicates: {
+    enabled: true,
+    threshold: 0.6,                        // lower = stricter
+    action: "regenerate" as "regenerate" | "reject",
+    maxRegenerations: 2,
+  },
+
   // === OUTPUT ===
   output: {
     platforms: ["twitter", "instagram", "facebook"] as const,
@@ -117,7 +169,18 @@ export const config = {
     maxKeywords: 6,
     maxPostIdeas: 3,
     maxContentPerIdea: 1,
-    logToFile: true,
+    // Cite the news article / Reddit thread a post reacts to: X gets the link as a reply,
+    // Facebook inline, Instagram a "link in bio" note. The URL is stored with the post either way.
+    sourceLinks: true,
+  },
+
+  // === RUN LOG ===
+  // Every run writes one JSON line per step (keywords, each source, ideas, content, image,
+  // post, comment) to logs/runs/runs-YYYY-MM-DD.jsonl, tagged with a run ID.
+  logging: {
+    runLog: true,
+    retentionDays: 30,                     // delete run logs older than this (0 = keep forever)
+    maxFileSizeMb: 20,                     // start runs-DATE.1.jsonl, .2, ... past this size
   },
 
   // === PROMPT CONFIG ===
@@ -177,6 +240,53 @@ export const config = {
     jitterMinutes: 15,                     // random delay 1-15 mins for organic posting
   },
 
+  // === HTTP API (serve mode) ===
+  // bun run cli -- serve starts a local HTTP API so a dashboard or webhook tool can start runs
+  // and publish queued posts without spawning Bun. Every request needs
+  //   Authorization: Bearer <token>
+  // Generate a token with: openssl rand -hex 32 (or set TRENDGEN_SERVER_TOKEN).
+  server: {
+    host: "127.0.0.1",                     // keep on localhost unless it sits behind a proxy
+    port: 8790,
+    token: "",
+    maxConcurrentRuns: 1,                  // must stay 1 — runs share current_post/; extra runs queue
+    maxQueuedRuns: 5,                      // further POST /runs get 429 until a slot frees up
+  },
+
+  // === DAEMON ===
+  // bun run tg -- daemon runs forever and replaces cron / OpenClaw triggers and the jitter wait.
+  // Each day, targetPerDay posts per platform are spread across its window at random times
+  // (quiet hours excluded, business.timezone). Planned slots live in the DB, so a restart
+  // picks up where it left off without posting twice.
+  daemon: {
+    quietHours: { start: "23:00", end: "07:00" },   // nothing posts or comments in here
+    minGapMinutes: 45,                     // catching up after downtime: at least this long between posts
+    platforms: {
+      twitter: { enabled: true, window: { start: "08:00", end: "22:00" }, targetPerDay: 4 },
+      facebook: { enabled: false, window: { start: "09:00", end: "20:00" }, targetPerDay: 2 },
+      instagram: { enabled: false, window: { start: "11:00", end: "19:00" }, targetPerDay: 1 },
+    } as Record<string, { enabled: boolean; window: { start: string; end: string }; targetPerDay: number }>,
+    // Cron jobs (minute hour day month weekday, business.timezone).
+    // Actions: comment, publish-due, collect-metrics
+    jobs: [
+      { name: "comments", cron: "30 9-21/3 * * *", action: "comment" },
+      { name: "publish-due", cron: "*/10 * * * *", action: "publish-due" },
+      { name: "metrics", cron: "15 4 * * *", action: "collect-metrics" },
+    ] as { name: string; cron: string; action: "comment" | "publish-due" | "collect-metrics" }[],
+  },
+
+  // === STRATEGY SELECTION ===
+  // How the x script picks a strategy when --strategy isn't passed.
+  //   uniform — random pick (original behaviour)
+  //   bandit  — Thompson sampling on past engagement per strategy, platform and time of day.
+  //             Needs engagement data: run `bun run x -- collect-metrics` on a schedule.
+  //             With no data yet it behaves like uniform and sharpens as posts are scored.
+  strategySelection: {
+    mode: "uniform" as "uniform" | "bandit",
+    hourBucketSize: 3,                     // group posting hours into 3h windows (00-03, 03-06, ...)
+    minPostAgeHours: 24,                   // ignore posts younger than this — their engagement isn't settled yet
+  },
+
   // === X.COM AUTO-POSTING ===
   // Posts generated content directly to X.com + replies to relevant tweets.
   //
@@ -202,7 +312,7 @@ export const config = {
     consumerSecret: "",                    // X API — Consumer Secret (API Key Secret)
     accessToken: "",                       // X API — Access Token
     accessTokenSecret: "",                 // X API — Access Token Secret
-    postsPerDay: 5,                        // hard cap — won't exceed this
+    postsPerDay: 5,                        // hard cap per rolling 24h — won't exceed this
     commentsPerDay: 10,                    // hard cap on replies per 24h
     dryRun: false,                         // true = log everything but don't actually post
     username: "YourHandle",                // your X handle — skip own tweets when commenting
@@ -228,7 +338,32 @@ export const config = {
     enabled: false,                          // flip to true once set up
     pageId: "",                              // Facebook Page ID (numeric)
     pageAccessToken: "",                     // Long-lived Page Access Token
-    postsPerDay: 3,                          // hard cap
+    postsPerDay: 3,                          // hard cap per rolling 24h
+    dryRun: false,                           // true = log but don't post
+  },
+
+  // === INSTAGRAM AUTO-POSTING ===
+  // Posts to Instagram via the Graph API content-publishing flow (free).
+  // Requires a Facebook Page linked to an Instagram Business/Creator account.
+  // Instagram only accepts images from a public URL, so each image is first uploaded
+  // to the linked Page as an unpublished photo, then published to Instagram.
+  // Every Instagram run forces image generation (image.runwareApiKey must be set).
+  //
+  // Setup:
+  //   1. Convert Instagram to a Business or Creator account
+  //   2. Link it to your Facebook Page (Instagram Settings → Linked Accounts)
+  //   3. Use the same Facebook Developer App as above
+  //   4. In Graph API Explorer, also check instagram_basic, instagram_content_publish
+  //   5. Get your Instagram User ID:
+  //      GET /{page-id}?fields=instagram_business_account → copy the id
+  //   6. Paste below
+  //
+  instagram: {
+    enabled: false,                          // flip to true once set up
+    igUserId: "",                            // Instagram Business Account ID
+    pageId: "",                              // Linked Facebook Page ID (hosts the image)
+    pageAccessToken: "",                     // Same Page Access Token as Facebook
+    postsPerDay: 2,                          // hard cap per rolling 24h (Instagram penalises overposting)
     dryRun: false,                           // true = log but don't post
   },
 
@@ -267,3 +402,50 @@ export type SourcesConfig = typeof config.sources;
 export type OutputConfig = typeof config.output;
 export type XConfig = typeof config.x;
 export type TwitterApiIoConfig = typeof config.twitterApiIo;
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends readonly any[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+export type ProfileOverrides = DeepPartial<Omit<Config, "cache">>;
+
+// === PROFILES ===
+// Extra brands run from the same install: bun run cli -- --profile autogen
+//                                         bun run tg -- --profile autogen --fb
+//
+// Each profile overrides sections of the config above — anything left out is inherited,
+// except the platform sections (x, facebook, instagram, twitterApiIo): those hold the
+// brand's own accounts, so a profile that doesn't define one has that platform disabled,
+// and credentials are never inherited from the main brand.
+//
+// Each profile gets its own DB, logs, queue images and current_post under profiles/<name>/,
+// so daily caps, duplicate checks and post history stay separate per brand.
+// The source cache is shared.
+export const profiles: Record<string, ProfileOverrides> = {
+  autogen: {
+    business: {
+      name: "AutoGen Digital",
+      type: "AI Automation & Web Design Agency",
+      city: "Pontefract",
+      industry: "AI Automation, Social Media Automation, Fast React Websites, Digital Marketing",
+      targetAudience: "Trades businesses in Yorkshire (joiners, plumbers, electricians, builders) who want leads on autopilot",
+      servicesOffered: "£500 React websites (no WordPress), £99/mo AI-powered social media automation, AI chatbots, lead generation systems",
+      personality: "Straight-talking ex-joiner from Pontefract. Yorkshire direct, zero corporate bollocks. Confident, helpful, build-in-public energy.",
+      postType: "authority_building",
+    },
+    sources: {
+      coingecko: false,
+    },
+    output: {
+      keywords: [
+        "small business marketing UK", "trades business leads", "AI automation small business",
+        "website for builders", "social media for plumbers", "Yorkshire business news",
+      ],
+    },
+    // facebook: {
+    //   enabled: true,
+    //   pageId: "",
+    //   pageAccessToken: "",
+    //   postsPerDay: 2,
+    // },
+  },
+};
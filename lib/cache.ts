@@ -1,10 +1,223 @@
-// In-memory TTL cache
+import { Database } from "bun:sqlite";
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { config } from "../config";
+
+interface CacheEntry {
+  data: any;
+  expires: number;
+}
+
+export interface CacheStats {
+  backend: string;
+  entries: number;
+  expired: number;
+  byPrefix: Record<string, number>;
+}
+
+// Storage backends — all synchronous, CacheManager wraps them in the async API
+interface CacheStore {
+  name: string;
+  read(key: string): CacheEntry | null;
+  write(key: string, entry: CacheEntry): void;
+  remove(key: string): void;
+  keys(): { key: string; expires: number }[];
+  clear(prefix?: string): number;
+  prune(now: number): number;
+}
+
+class MemoryCacheStore implements CacheStore {
+  name = "memory";
+  private cache = new Map<string, CacheEntry>();
+
+  read(key: string): CacheEntry | null {
+    return this.cache.get(key) ?? null;
+  }
+
+  write(key: string, entry: CacheEntry): void {
+    this.cache.set(key, entry);
+  }
+
+  remove(key: string): void {
+    this.cache.delete(key);
+  }
+
+  keys(): { key: string; expires: number }[] {
+    return Array.from(this.cache.entries()).map(([key, entry]) => ({ key, expires: entry.expires }));
+  }
+
+  clear(prefix?: string): number {
+    let removed = 0;
+    for (const key of Array.from(this.cache.keys())) {
+      if (!prefix || key.startsWith(prefix)) {
+        this.cache.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  prune(now: number): number {
+    let removed = 0;
+    for (const [key, entry] of Array.from(this.cache.entries())) {
+      if (entry.expires <= now) {
+        this.cache.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+class SqliteCacheStore implements CacheStore {
+  name = "sqlite";
+  private db: Database;
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS cache (
+        key TEXT PRIMARY KEY,
+        data TEXT,
+        expires INTEGER
+      )
+    `);
+  }
+
+  read(key: string): CacheEntry | null {
+    const row = this.db.prepare("SELECT data, expires FROM cache WHERE key = ?").get(key) as { data: string; expires: number } | undefined;
+    return row ? { data: JSON.parse(row.data), expires: row.expires } : null;
+  }
+
+  write(key: string, entry: CacheEntry): void {
+    this.db.prepare(`
+      INSERT INTO cache (key, data, expires) VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET data = excluded.data, expires = excluded.expires
+    `).run(key, JSON.stringify(entry.data), entry.expires);
+  }
+
+  remove(key: string): void {
+    this.db.prepare("DELETE FROM cache WHERE key = ?").run(key);
+  }
+
+  keys(): { key: string; expires: number }[] {
+    return this.db.prepare("SELECT key, expires FROM cache").all() as { key: string; expires: number }[];
+  }
+
+  clear(prefix?: string): number {
+    const result = prefix
+      ? this.db.prepare("DELETE FROM cache WHERE substr(key, 1, ?) = ?").run(prefix.length, prefix)
+      : this.db.prepare("DELETE FROM cache").run();
+    return result.changes;
+  }
+
+  prune(now: number): number {
+    return this.db.prepare("DELETE FROM cache WHERE expires <= ?").run(now).changes;
+  }
+}
+
+// One JSON file per key — file name is a hash, the key is stored inside
+class FileCacheStore implements CacheStore {
+  name = "file";
+
+  constructor(private dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  private fileFor(key: string): string {
+    const hash = createHash("sha1").update(key).digest("hex");
+    return path.join(this.dir, `${hash}.json`);
+  }
+
+  private readFile(file: string): ({ key: string } & CacheEntry) | null {
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch {
+      return null;
+    }
+  }
+
+  private allFiles(): string[] {
+    try {
+      return fs.readdirSync(this.dir)
+        .filter(f => f.endsWith(".json"))
+        .map(f => path.join(this.dir, f));
+    } catch {
+      return [];
+    }
+  }
+
+  read(key: string): CacheEntry | null {
+    const stored = this.readFile(this.fileFor(key));
+    return stored && stored.key === key ? { data: stored.data, expires: stored.expires } : null;
+  }
+
+  write(key: string, entry: CacheEntry): void {
+    fs.writeFileSync(this.fileFor(key), JSON.stringify({ key, ...entry }), "utf-8");
+  }
+
+  remove(key: string): void {
+    fs.rmSync(this.fileFor(key), { force: true });
+  }
+
+  keys(): { key: string; expires: number }[] {
+    return this.allFiles()
+      .map(file => this.readFile(file))
+      .filter((stored): stored is { key: string } & CacheEntry => stored !== null)
+      .map(stored => ({ key: stored.key, expires: stored.expires }));
+  }
+
+  clear(prefix?: string): number {
+    let removed = 0;
+    for (const file of this.allFiles()) {
+      const stored = this.readFile(file);
+      if (!prefix || stored?.key.startsWith(prefix)) {
+        fs.rmSync(file, { force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  prune(now: number): number {
+    let removed = 0;
+    for (const file of this.allFiles()) {
+      const stored = this.readFile(file);
+      // Unreadable files are treated as expired
+      if (!stored || stored.expires <= now) {
+        fs.rmSync(file, { force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+function createStore(): CacheStore {
+  const backend = config.cache?.backend || "memory";
+  const cacheDir = path.join(process.cwd(), config.cache?.dir || ".cache");
+
+  switch (backend) {
+    case "sqlite":
+      return new SqliteCacheStore(path.join(cacheDir, "cache.db"));
+    case "file":
+      return new FileCacheStore(path.join(cacheDir, "entries"));
+    case "memory":
+      return new MemoryCacheStore();
+    default:
+      throw new Error(`Unknown cache backend "${backend}" in config.cache.backend (expected: memory, sqlite, file)`);
+  }
+}
+
+// TTL cache — in-memory by default, persisted across runs with the sqlite or file backend
 export class CacheManager {
   private static instance: CacheManager;
-  private cache: Map<string, { data: any; expires: number }>;
+  private store: CacheStore;
 
   private constructor() {
-    this.cache = new Map();
+    this.store = createStore();
   }
 
   static getInstance(): CacheManager {
@@ -15,19 +228,19 @@ export class CacheManager {
   }
 
   async get(key: string): Promise<any> {
-    const cached = this.cache.get(key);
+    const cached = this.store.read(key);
     if (cached && cached.expires > Date.now()) {
       return cached.data;
     }
     if (cached) {
-      this.cache.delete(key);
+      this.store.remove(key);
     }
     return null;
   }
 
   async set(key: string, data: any, ttlSeconds: number): Promise<void> {
     const expires = Date.now() + (ttlSeconds * 1000);
-    this.cache.set(key, { data, expires });
+    this.store.write(key, { data, expires });
   }
 
   generateKey(prefix: string, params: Record<string, any>): string {
@@ -37,6 +250,32 @@ export class CacheManager {
       .join('|');
     return `${prefix}:${sortedParams}`;
   }
+
+  stats(): CacheStats {
+    const now = Date.now();
+    const entries = this.store.keys();
+    const byPrefix: Record<string, number> = {};
+    for (const { key } of entries) {
+      const prefix = key.split(":")[0];
+      byPrefix[prefix] = (byPrefix[prefix] || 0) + 1;
+    }
+    return {
+      backend: this.store.name,
+      entries: entries.length,
+      expired: entries.filter(e => e.expires <= now).length,
+      byPrefix,
+    };
+  }
+
+  // Removes every entry, or only those whose key starts with prefix (e.g. "news-articles")
+  clear(prefix?: string): number {
+    return this.store.clear(prefix);
+  }
+
+  // Removes expired entries only
+  prune(): number {
+    return this.store.prune(Date.now());
+  }
 }
 
 export const cache = CacheManager.getInstance();
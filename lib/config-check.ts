@@ -0,0 +1,314 @@
+import { config } from "../config";
+import { isValidTimeZone, parseClock } from "./time";
+import { parseCron } from "./cron";
+
+// Startup validation for config.ts. Collects every problem instead of stopping at the first,
+// so a broken config is fixed in one pass rather than one failed run at a time.
+
+export interface ConfigIssue {
+  level: "error" | "warning";
+  path: string;
+  message: string;
+}
+
+export interface ValidateOptions {
+  // --image / --ig: an image will be generated this run no matter what image.enabled says
+  imageRequired?: boolean;
+  // serve: the HTTP API refuses to start without a bearer token
+  serving?: boolean;
+}
+
+const PROVIDERS = ["deepseek", "anthropic", "openai", "local"];
+const STRATEGIES = ["value_first", "authority_building", "direct_sales"];
+const PLATFORMS = ["twitter", "twitter_thread", "instagram", "facebook"];
+const CACHE_BACKENDS = ["memory", "sqlite", "file"];
+const IMAGE_FORMATS = ["WEBP", "PNG", "JPG"];
+const DAEMON_PLATFORMS = ["twitter", "facebook", "instagram"];
+const DAEMON_ACTIONS = ["comment", "publish-due", "collect-metrics"];
+
+class IssueCollector {
+  issues: ConfigIssue[] = [];
+
+  error(path: string, message: string): void {
+    this.issues.push({ level: "error", path, message });
+  }
+
+  warning(path: string, message: string): void {
+    this.issues.push({ level: "warning", path, message });
+  }
+
+  // Missing credentials only break real posting — in dry-run they are a warning
+  credential(path: string, value: unknown, hint: string, dryRun: boolean = false): void {
+    if (typeof value === "string" && value.trim() !== "") return;
+    const message = `is empty — ${hint}`;
+    if (dryRun) this.warning(path, `${message} (ok while dryRun is on)`);
+    else this.error(path, message);
+  }
+
+  text(path: string, value: unknown): void {
+    if (typeof value !== "string" || value.trim() === "") {
+      this.error(path, "must be a non-empty string");
+    }
+  }
+
+  number(path: string, value: unknown, min: number, max: number = Infinity, integer: boolean = false): void {
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      this.error(path, `must be a number, got ${JSON.stringify(value)}`);
+    } else if (value < min || value > max) {
+      this.error(path, `must be ${max === Infinity ? `>= ${min}` : `between ${min} and ${max}`}, got ${value}`);
+    } else if (integer && !Number.isInteger(value)) {
+      this.error(path, `must be a whole number, got ${value}`);
+    }
+  }
+
+  oneOf(path: string, value: unknown, options: string[]): void {
+    if (typeof value !== "string" || !options.includes(value)) {
+      this.error(path, `must be one of ${options.join(", ")}, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  section(path: string, value: unknown): boolean {
+    if (typeof value !== "object" || value === null) {
+      this.error(path, "section is missing — copy it from config.example.ts");
+      return false;
+    }
+    return true;
+  }
+}
+
+export function validateConfig(options: ValidateOptions = {}): ConfigIssue[] {
+  const c = config as Record<string, any>;
+  const check = new IssueCollector();
+
+  if (check.section("business", c.business)) {
+    check.text("business.name", c.business.name);
+    check.text("business.type", c.business.type);
+    check.text("business.industry", c.business.industry);
+    check.text("business.targetAudience", c.business.targetAudience);
+    check.oneOf("business.postType", c.business.postType, STRATEGIES);
+    if (c.business.timezone !== undefined && !isValidTimeZone(c.business.timezone)) {
+      check.error("business.timezone", `is not a known IANA timezone, got ${JSON.stringify(c.business.timezone)}`);
+    }
+  }
+
+  if (check.section("ai", c.ai)) {
+    check.oneOf("ai.provider", c.ai.provider ?? "deepseek", PROVIDERS);
+    if (c.ai.provider !== "local") {
+      check.credential("ai.apiKey", c.ai.apiKey, `get a key for ${c.ai.provider ?? "deepseek"} (or use provider "local")`);
+    }
+    check.text("ai.model", c.ai.model);
+    check.number("ai.maxTokens", c.ai.maxTokens, 1, Infinity, true);
+    if (c.ai.baseUrl) checkUrl(check, "ai.baseUrl", c.ai.baseUrl);
+  }
+
+  if (check.section("sources", c.sources)) {
+    const { reddit, news } = c.sources;
+    if (reddit?.enabled) {
+      check.credential("sources.reddit.clientId", reddit.clientId, "create an app at https://www.reddit.com/prefs/apps");
+      check.credential("sources.reddit.clientSecret", reddit.clientSecret, "create an app at https://www.reddit.com/prefs/apps");
+    }
+    if (news?.enabled) {
+      const feeds: unknown[] = Array.isArray(news.rssFeeds) ? news.rssFeeds : [];
+      if (feeds.length === 0 && !news.newsApiKey) {
+        check.error("sources.news", "is enabled but has no rssFeeds and no newsApiKey");
+      }
+      feeds.forEach((feed, i) => checkUrl(check, `sources.news.rssFeeds[${i}]`, feed));
+      if (news.fetchConcurrency !== undefined) check.number("sources.news.fetchConcurrency", news.fetchConcurrency, 1, Infinity, true);
+      if (news.feedTimeoutSeconds !== undefined) check.number("sources.news.feedTimeoutSeconds", news.feedTimeoutSeconds, 1);
+      if (news.clustering) {
+        check.number("sources.news.clustering.titleSimilarity", news.clustering.titleSimilarity, 0, 1);
+        check.number("sources.news.clustering.windowHours", news.clustering.windowHours, 0);
+        check.number("sources.news.clustering.coverageBoost", news.clustering.coverageBoost, 0, 1);
+      }
+      if (news.extraction?.enabled) {
+        check.number("sources.news.extraction.topArticles", news.extraction.topArticles, 1, 10, true);
+        check.number("sources.news.extraction.timeoutSeconds", news.extraction.timeoutSeconds, 1);
+        check.number("sources.news.extraction.maxFacts", news.extraction.maxFacts, 1, 20, true);
+      }
+    }
+    const anySource = c.sources.googleTrends || c.sources.xcom || c.sources.coingecko || reddit?.enabled || news?.enabled;
+    if (!anySource) {
+      check.warning("sources", "every source is disabled — runs will have no trend data");
+    }
+  }
+
+  if (c.cache) {
+    check.oneOf("cache.backend", c.cache.backend, CACHE_BACKENDS);
+  }
+
+  if (check.section("output", c.output)) {
+    const platforms: unknown[] = Array.isArray(c.output.platforms) ? c.output.platforms : [];
+    platforms.forEach((p, i) => check.oneOf(`output.platforms[${i}]`, p, PLATFORMS));
+    if (!Array.isArray(c.output.keywords) || c.output.keywords.length === 0) {
+      check.error("output.keywords", "must list at least one keyword");
+    }
+    check.number("output.keywordsPerRun", c.output.keywordsPerRun, 1, Infinity, true);
+    check.number("output.maxPostIdeas", c.output.maxPostIdeas, 1, Infinity, true);
+    check.number("output.maxContentPerIdea", c.output.maxContentPerIdea, 1, Infinity, true);
+  }
+
+  if (check.section("image", c.image)) {
+    const image = c.image;
+    check.number("image.imageChance", image.imageChance, 0, 1);
+    check.number("image.width", image.width, 64, Infinity, true);
+    check.number("image.height", image.height, 64, Infinity, true);
+    check.oneOf("image.outputFormat", image.outputFormat, IMAGE_FORMATS);
+    // Without a key the image step fails after the model has already written the image prompt
+    if (options.imageRequired) {
+      check.credential("image.runwareApiKey", image.runwareApiKey, "get a key at https://runware.ai — this run needs an image");
+    } else if (image.enabled && image.imageChance > 0 && !image.runwareApiKey) {
+      check.warning("image.runwareApiKey", "is empty but image.enabled is on — image generation will fail (set imageChance: 0 or add a key)");
+    }
+  }
+
+  if (check.section("schedule", c.schedule)) {
+    check.number("schedule.intervalHours", c.schedule.intervalHours, 0.1);
+    check.number("schedule.jitterMinutes", c.schedule.jitterMinutes ?? 0, 0);
+  }
+
+  if (c.server) {
+    check.number("server.port", c.server.port, 1, 65535, true);
+    check.number("server.maxConcurrentRuns", c.server.maxConcurrentRuns, 1, Infinity, true);
+    // Every run wipes and rewrites current_post/, so a second run would delete the first one's image
+    if (typeof c.server.maxConcurrentRuns === "number" && c.server.maxConcurrentRuns > 1) {
+      check.error("server.maxConcurrentRuns", `must be 1 — runs share current_post/, got ${c.server.maxConcurrentRuns}`);
+    }
+    check.number("server.maxQueuedRuns", c.server.maxQueuedRuns, 0, Infinity, true);
+  }
+  if (options.serving && check.section("server", c.server)) {
+    check.credential("server.token", c.server.token, "generate one with: openssl rand -hex 32");
+  }
+
+  if (c.daemon) {
+    checkDaemon(check, c.daemon);
+  }
+
+  if (c.logging) {
+    check.number("logging.retentionDays", c.logging.retentionDays, 0, Infinity, true);
+    check.number("logging.maxFileSizeMb", c.logging.maxFileSizeMb, 1);
+  }
+
+  if (c.strategySelection) {
+    check.oneOf("strategySelection.mode", c.strategySelection.mode, ["uniform", "bandit"]);
+    check.number("strategySelection.hourBucketSize", c.strategySelection.hourBucketSize, 1, 24, true);
+    check.number("strategySelection.minPostAgeHours", c.strategySelection.minPostAgeHours, 0);
+  }
+
+  if (c.duplicates) {
+    check.number("duplicates.threshold", c.duplicates.threshold, 0, 1);
+    check.oneOf("duplicates.action", c.duplicates.action, ["regenerate", "reject"]);
+    check.number("duplicates.maxRegenerations", c.duplicates.maxRegenerations, 0, 10, true);
+  }
+
+  if (check.section("x", c.x)) {
+    const x = c.x;
+    check.number("x.postsPerDay", x.postsPerDay, 0, Infinity, true);
+    check.number("x.commentsPerDay", x.commentsPerDay, 0, Infinity, true);
+    if (x.enabled) {
+      const hint = "see the X API setup steps in config.example.ts";
+      check.credential("x.consumerKey", x.consumerKey, hint, x.dryRun);
+      check.credential("x.consumerSecret", x.consumerSecret, hint, x.dryRun);
+      check.credential("x.accessToken", x.accessToken, hint, x.dryRun);
+      check.credential("x.accessTokenSecret", x.accessTokenSecret, hint, x.dryRun);
+    }
+  }
+
+  if (check.section("facebook", c.facebook)) {
+    const fb = c.facebook;
+    check.number("facebook.postsPerDay", fb.postsPerDay, 0, Infinity, true);
+    if (fb.enabled) {
+      check.credential("facebook.pageId", fb.pageId, "numeric Facebook Page ID", fb.dryRun);
+      check.credential("facebook.pageAccessToken", fb.pageAccessToken, "long-lived Page Access Token", fb.dryRun);
+    }
+  }
+
+  if (c.instagram) {
+    const ig = c.instagram;
+    check.number("instagram.postsPerDay", ig.postsPerDay, 0, 25, true);
+    if (ig.enabled) {
+      check.credential("instagram.igUserId", ig.igUserId, "GET /{page-id}?fields=instagram_business_account", ig.dryRun);
+      check.credential("instagram.pageId", ig.pageId, "Facebook Page linked to the Instagram account", ig.dryRun);
+      check.credential("instagram.pageAccessToken", ig.pageAccessToken, "Page Access Token with instagram_content_publish", ig.dryRun);
+    }
+  }
+
+  if (c.twitterApiIo?.enabled) {
+    check.credential("twitterApiIo.apiKey", c.twitterApiIo.apiKey, "get a key at https://twitterapi.io");
+    if (!c.x?.username || c.x.username === "YourHandle") {
+      check.warning("x.username", "is not set — the commenter can't skip your own tweets");
+    }
+  }
+
+  return check.issues;
+}
+
+function checkClock(check: IssueCollector, path: string, value: unknown): void {
+  if (typeof value !== "string" || parseClock(value) === null) {
+    check.error(path, `must be a time like "08:00", got ${JSON.stringify(value)}`);
+  }
+}
+
+function checkDaemon(check: IssueCollector, daemon: Record<string, any>): void {
+  if (daemon.quietHours) {
+    checkClock(check, "daemon.quietHours.start", daemon.quietHours.start);
+    checkClock(check, "daemon.quietHours.end", daemon.quietHours.end);
+  }
+  check.number("daemon.minGapMinutes", daemon.minGapMinutes ?? 0, 0);
+
+  for (const [platform, settings] of Object.entries<any>(daemon.platforms ?? {})) {
+    const path = `daemon.platforms.${platform}`;
+    if (!DAEMON_PLATFORMS.includes(platform)) {
+      check.error(path, `is not a platform the daemon can post to — expected ${DAEMON_PLATFORMS.join(", ")}`);
+      continue;
+    }
+    checkClock(check, `${path}.window.start`, settings?.window?.start);
+    checkClock(check, `${path}.window.end`, settings?.window?.end);
+    check.number(`${path}.targetPerDay`, settings?.targetPerDay, 0, Infinity, true);
+  }
+
+  const names = new Set<string>();
+  (Array.isArray(daemon.jobs) ? daemon.jobs : []).forEach((job: any, i: number) => {
+    const path = `daemon.jobs[${i}]`;
+    check.text(`${path}.name`, job?.name);
+    if (names.has(job?.name)) check.error(`${path}.name`, `"${job.name}" is used by another job — names must be unique`);
+    names.add(job?.name);
+    check.oneOf(`${path}.action`, job?.action, DAEMON_ACTIONS);
+    try {
+      parseCron(String(job?.cron ?? ""));
+    } catch (error: any) {
+      check.error(`${path}.cron`, error.message);
+    }
+  });
+}
+
+function checkUrl(check: IssueCollector, path: string, value: unknown): void {
+  try {
+    const url = new URL(String(value));
+    if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error();
+  } catch {
+    check.error(path, `is not a valid http(s) URL: ${JSON.stringify(value)}`);
+  }
+}
+
+export function formatIssues(issues: ConfigIssue[]): string {
+  return issues
+    .map(issue => `  ${issue.level === "error" ? "ERROR  " : "WARNING"} ${issue.path} ${issue.message}`)
+    .join("\n");
+}
+
+// Runs at startup: prints every issue to stderr. Returns false when there are errors,
+// so the entry point can stop before any API is paid for.
+export function checkConfigAtStartup(options: ValidateOptions = {}): boolean {
+  const issues = validateConfig(options);
+  if (issues.length === 0) return true;
+
+  const errors = issues.filter(i => i.level === "error");
+  console.error(`[CONFIG] ${errors.length} error(s), ${issues.length - errors.length} warning(s) in config.ts:`);
+  console.error(formatIssues(issues));
+
+  if (errors.length > 0) {
+    console.error(`[CONFIG] Fix the errors above, then re-check with: bun run cli -- config check`);
+    return false;
+  }
+  return true;
+}
@@ -1,12 +1,33 @@
+import { config } from "../config";
 import { makeRequest } from "./claude";
 import { Logger } from "./logger";
+import { findNearestPost, DuplicateMatch } from "./duplicates";
 import { PostIdea } from "./trends";
+import { validateTweet, truncateTweet, MAX_TWEET_LENGTH, URL_LENGTH } from "./x-text";
+
+// How many times the model is asked to shorten an over-length tweet before falling back to truncation
+const SHORTEN_ATTEMPTS = 2;
+
+// Threads travel as one text block so they can be logged, queued and edited like any other post
+export const THREAD_SEPARATOR = "\n\n---\n\n";
+
+export function joinThread(tweets: string[]): string {
+  return tweets.join(THREAD_SEPARATOR);
+}
+
+export function splitThread(text: string): string[] {
+  return text
+    .split(/\n\s*---\s*\n/)
+    .map(tweet => tweet.trim())
+    .filter(tweet => tweet.length > 0);
+}
 
 export interface GeneratedContent {
   idea: string;
   platform: string;
   text: string;
   strategy: string;
+  sourceUrl?: string;            // article the post cites — X posts it as a reply when publishing
 }
 
 interface BusinessDataInput {
@@ -32,27 +53,32 @@ export async function generatePlatformContent(
     postType?: string;
   },
   selectedIdeas: PostIdea[],
-  platforms: string[]
+  platforms: string[],
+  logger?: any
 ): Promise<GeneratedContent[]> {
   const generatedContent: GeneratedContent[] = [];
 
   for (const idea of selectedIdeas) {
+    const sourceUrl = (config.output.sourceLinks ?? true) ? idea.source?.url : undefined;
     for (const platform of platforms) {
       try {
-        const content = await generateContentForPlatform(businessData, idea, platform);
+        const content = await generateContentForPlatform(businessData, idea, platform, logger);
+        if (content === null) continue;
         generatedContent.push({
           idea: idea.concept,
           platform,
-          text: content,
-          strategy: businessData.postType || 'value_first'
+          text: withSourceLink(content, platform, sourceUrl),
+          strategy: businessData.postType || 'value_first',
+          sourceUrl
         });
       } catch (error) {
         console.error(`Error generating content for ${platform}:`, error);
         generatedContent.push({
           idea: idea.concept,
           platform,
-          text: getFallbackContent(idea, platform),
-          strategy: businessData.postType || 'value_first'
+          text: withSourceLink(getFallbackContent(idea, platform), platform, sourceUrl),
+          strategy: businessData.postType || 'value_first',
+          sourceUrl
         });
       }
     }
@@ -61,25 +87,93 @@ export async function generatePlatformContent(
   return generatedContent;
 }
 
+// Cites the source per platform: Facebook gets the link inline (it renders a preview), Instagram
+// captions can't link so they point to the bio. X text is left alone — the link goes in a reply.
+export function withSourceLink(text: string, platform: string, sourceUrl?: string): string {
+  if (!sourceUrl || text.includes(sourceUrl)) return text;
+  if (platform === "facebook") {
+    return `${text}\n\nSource: ${sourceUrl}`;
+  }
+  if (platform === "instagram") {
+    const hashtags = text.indexOf("\n\n#");
+    return hashtags === -1
+      ? `${text}\n\n🔗 Source: link in bio`
+      : `${text.slice(0, hashtags)}\n\n🔗 Source: link in bio${text.slice(hashtags)}`;
+  }
+  return text;
+}
+
+// Returns null when the post is rejected as a duplicate of something already posted or queued
 async function generateContentForPlatform(
   businessData: BusinessDataInput,
   idea: PostIdea,
-  platform: string
-): Promise<string> {
+  platform: string,
+  logger?: any
+): Promise<string | null> {
   const recentSnippets = await Logger.getRecentPostSnippets(10);
   if (recentSnippets.length > 0) {
     console.error(`[DUPLICATE CHECK] Found ${recentSnippets.length} recent post(s) — injecting into prompt to avoid repetition`);
   } else {
     console.error(`[DUPLICATE CHECK] No previous posts found — generating fresh`);
   }
-  const prompt = buildContentPrompt(businessData, idea, platform, recentSnippets);
-  const content = await makeRequest(prompt, 1000);
-  const cleaned = cleanupGeneratedContent(content, platform);
-  await Logger.logPost(businessData.businessName, platform, cleaned);
-  return cleaned;
+
+  const duplicates = config.duplicates;
+  const checkEnabled = duplicates?.enabled ?? false;
+  const threshold = duplicates?.threshold ?? 0.6;
+  const regenerations = duplicates?.action === "reject" ? 0 : duplicates?.maxRegenerations ?? 2;
+
+  let tooSimilar: DuplicateMatch | null = null;
+  for (let attempt = 0; ; attempt++) {
+    const prompt = buildContentPrompt(businessData, idea, platform, recentSnippets, tooSimilar);
+    const cleaned = await generateCleanContent(prompt, platform);
+    if (!checkEnabled) {
+      await Logger.logPost(businessData.businessName, platform, cleaned);
+      return cleaned;
+    }
+
+    const match = findNearestPost(cleaned);
+    const matchLabel = match
+      ? `${match.post.source} #${match.post.id} (${match.post.platform}, ${match.post.posted_at}) score ${match.score.toFixed(2)}`
+      : "no history";
+    const isDuplicate = match !== null && match.score >= threshold;
+
+    if (logger) {
+      logger.logDuplicateCheck(platform, match, threshold, isDuplicate, attempt);
+    }
+
+    if (!isDuplicate) {
+      console.error(`[DUPLICATE CHECK] ${platform}: nearest ${matchLabel} — below ${threshold}, accepted`);
+      await Logger.logPost(businessData.businessName, platform, cleaned);
+      return cleaned;
+    }
+
+    if (attempt >= regenerations) {
+      console.error(`[DUPLICATE CHECK] ${platform}: nearest ${matchLabel} — rejected as duplicate`);
+      return null;
+    }
+
+    console.error(`[DUPLICATE CHECK] ${platform}: nearest ${matchLabel} — too similar, regenerating (${attempt + 1}/${regenerations})`);
+    tooSimilar = match;
+  }
+}
+
+async function generateCleanContent(prompt: string, platform: string): Promise<string> {
+  const content = await makeRequest(prompt, platform === "twitter_thread" ? 2000 : 1000);
+  if (platform === "twitter_thread") {
+    return joinThread(await cleanupThreadContent(content));
+  } else if (platform === "twitter") {
+    return cleanupGeneratedContent(await shortenOverLengthTweet(stripWrapping(content)), platform);
+  }
+  return cleanupGeneratedContent(content, platform);
 }
 
-function buildContentPrompt(businessData: BusinessDataInput, idea: PostIdea, platform: string, recentSnippets: string[] = []): string {
+function buildContentPrompt(
+  businessData: BusinessDataInput,
+  idea: PostIdea,
+  platform: string,
+  recentSnippets: string[] = [],
+  tooSimilar: DuplicateMatch | null = null
+): string {
   const platformSpecs = getPlatformSpecs(platform);
   const personalityContext = businessData.businessPersonality
     ? `- Business Personality & Values: ${businessData.businessPersonality}\n`
@@ -91,7 +185,20 @@ function buildContentPrompt(businessData: BusinessDataInput, idea: PostIdea, pla
     ? `\nRECENT POSTS — avoid duplicating content AND structure/format:\n${recentSnippets.map((s, i) => `[${i + 1}] ${s}`).join('\n')}\nDo NOT reuse the same post format (e.g. if a recent post used a numbered list, use a different format like a single paragraph, a question, a bold statement, or a two-liner instead).\n`
     : '';
 
-  return `Create a ${platform} post for ${businessData.businessName} (${businessData.businessType}) based on this trending topic.${duplicateWarning}
+  const similarityWarning = tooSimilar
+    ? `\nYOUR LAST DRAFT WAS TOO SIMILAR to this earlier post — take a different angle, structure and wording:\n${tooSimilar.post.text}\n`
+    : '';
+
+  const sourceFacts = idea.facts && idea.facts.length > 0
+    ? `\nFacts from the source article (use these for any figures, names or quotes — do NOT invent details beyond them):\n${idea.facts.map(fact => `- ${fact}`).join('\n')}\n`
+    : '';
+
+  const platformLabel = platform === "twitter_thread" ? "X (Twitter) thread" : `${platform} post`;
+  const returnInstruction = platform === "twitter_thread"
+    ? "Return ONLY a JSON array of tweet strings in posting order, no explanations:"
+    : "Return ONLY the post content, no explanations or formatting markers:";
+
+  return `Create a ${platformLabel} for ${businessData.businessName} (${businessData.businessType}) based on this trending topic.${duplicateWarning}${similarityWarning}
 
 Business Profile:
 - Name: ${businessData.businessName}
@@ -102,7 +209,7 @@ Business Profile:
 ${personalityContext}
 Post Concept: ${idea.concept}
 Trend Source: ${idea.trend_source}
-
+${sourceFacts}
 Content Strategy: ${postTypeGuidelines.strategy}
 Post Type: ${postTypeGuidelines.post_type}
 
@@ -122,7 +229,7 @@ ${businessData.businessPersonality ? `- Channel the brand personality fully: ${b
 Call-to-Action Guidelines:
 ${postTypeGuidelines.cta_guidelines}
 
-Return ONLY the post content, no explanations or formatting markers:`;
+${returnInstruction}`;
 }
 
 function getPlatformSpecs(platform: string): { requirements: string } {
@@ -134,6 +241,15 @@ function getPlatformSpecs(platform: string): { requirements: string } {
 - Can include emojis sparingly
 - Vary the format — choose ONE style: a punchy single statement, a hot take, a question, a two-liner, or a short paragraph. Avoid defaulting to numbered lists every time.
 - Call-to-action or conversation starter`
+    },
+    twitter_thread: {
+      requirements: `- A thread of 3-5 tweets that builds one argument from hook to takeaway
+- EVERY tweet must be under 280 characters including hashtags and emojis — count carefully
+- Tweet 1 is the hook: a bold claim or question that makes people open the thread
+- Middle tweets each carry ONE concrete point (data, example, or step) — no filler
+- Last tweet lands the takeaway and a conversation starter
+- 2-3 high-value hashtags in the LAST tweet only
+- Do NOT number the tweets (no "1/", "2/") and do not write "thread" or "🧵" in every tweet`
     },
     instagram: {
       requirements: `- Maximum 2,200 characters but aim for 125-150 words
@@ -155,7 +271,8 @@ function getPlatformSpecs(platform: string): { requirements: string } {
   return specs[platform] || specs.twitter;
 }
 
-function cleanupGeneratedContent(content: string, platform: string): string {
+// Removes "Tweet:"-style prefixes and wrapping quotes the model sometimes adds
+function stripWrapping(content: string): string {
   let cleaned = content.trim();
 
   const prefixes = ["Here's the post:", "Post content:", "Caption:", "Tweet:", "Content:"];
@@ -169,29 +286,15 @@ function cleanupGeneratedContent(content: string, platform: string): string {
     cleaned = cleaned.substring(1, cleaned.length - 1);
   }
 
-  if (platform === "twitter" && cleaned.length > 280) {
-    // Smart truncation: find a natural break point instead of chopping mid-word
-    const slice = cleaned.substring(0, 280);
-
-    // Try to cut at last paragraph break
-    const lastPara = slice.lastIndexOf('\n\n');
-    if (lastPara > 150) {
-      cleaned = slice.substring(0, lastPara).trim();
-    } else {
-      // Try last sentence boundary
-      const lastSentence = Math.max(
-        slice.lastIndexOf('. '),
-        slice.lastIndexOf('? '),
-        slice.lastIndexOf('! ')
-      );
-      if (lastSentence > 150) {
-        cleaned = slice.substring(0, lastSentence + 1).trim();
-      } else {
-        // Last resort: cut at last space and add ellipsis
-        const lastSpace = slice.lastIndexOf(' ', 277);
-        cleaned = slice.substring(0, lastSpace > 0 ? lastSpace : 277).trim() + "...";
-      }
-    }
+  return cleaned;
+}
+
+function cleanupGeneratedContent(content: string, platform: string): string {
+  let cleaned = stripWrapping(content);
+
+  if (platform === "twitter") {
+    // Last resort — over-length posts have already been sent back to the model to shorten
+    cleaned = truncateTweet(cleaned);
   } else if (platform === "instagram") {
     if (!cleaned.includes('\n\n#') && cleaned.includes('#')) {
       const hashtagIndex = cleaned.indexOf('#');
@@ -204,6 +307,72 @@ function cleanupGeneratedContent(content: string, platform: string): string {
   return cleaned;
 }
 
+// Asks the model to rewrite an over-length tweet instead of cutting it
+async function shortenOverLengthTweet(text: string): Promise<string> {
+  let current = text;
+
+  for (let attempt = 1; attempt <= SHORTEN_ATTEMPTS; attempt++) {
+    const check = validateTweet(current);
+    if (check.weightedLength <= MAX_TWEET_LENGTH) {
+      return current;
+    }
+
+    console.error(`[LENGTH] Tweet is ${check.weightedLength}/${MAX_TWEET_LENGTH} weighted chars — asking model to shorten (attempt ${attempt}/${SHORTEN_ATTEMPTS})`);
+    try {
+      const shortened = await makeRequest(buildShortenPrompt(current, check.weightedLength), 500);
+      current = stripWrapping(shortened);
+    } catch (error: any) {
+      console.error(`[LENGTH] Shorten request failed: ${error.message}`);
+      return current;
+    }
+  }
+
+  const final = validateTweet(current).weightedLength;
+  if (final > MAX_TWEET_LENGTH) {
+    console.error(`[LENGTH] Still ${final}/${MAX_TWEET_LENGTH} after ${SHORTEN_ATTEMPTS} attempts — truncating`);
+  }
+  return current;
+}
+
+function buildShortenPrompt(text: string, length: number): string {
+  return `This X (Twitter) post is ${length} characters as X counts them, but the hard limit is ${MAX_TWEET_LENGTH}.
+
+Post:
+${text}
+
+Rewrite it to fit in ${MAX_TWEET_LENGTH - 20} characters or fewer:
+- Keep the same voice, the core point and the hook
+- Keep at least 2 of the hashtags
+- X counting rules: every link counts as ${URL_LENGTH} characters, every emoji as 2, CJK characters as 2
+- Tighten wording — do NOT end with "..." or cut off mid-thought
+
+Return ONLY the rewritten post, no explanations:`;
+}
+
+// Parses the model's JSON array of tweets and applies single-tweet cleanup to each
+async function cleanupThreadContent(content: string): Promise<string[]> {
+  const jsonMatch = content.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    throw new Error("Thread response contained no JSON array");
+  }
+
+  const parsed = JSON.parse(jsonMatch[0]);
+  if (!Array.isArray(parsed)) {
+    throw new Error("Thread response was not an array");
+  }
+
+  const drafts = parsed.filter((tweet: unknown): tweet is string => typeof tweet === "string" && tweet.trim().length > 0);
+  if (drafts.length === 0) {
+    throw new Error("Thread response contained no tweets");
+  }
+
+  const tweets: string[] = [];
+  for (const draft of drafts) {
+    tweets.push(cleanupGeneratedContent(await shortenOverLengthTweet(stripWrapping(draft)), "twitter"));
+  }
+  return tweets;
+}
+
 function getFallbackContent(idea: PostIdea, platform: string): string {
   const fallbackContent: Record<string, string> = {
     twitter: `${idea.concept} — this is worth watching. What's your take? 👇`,
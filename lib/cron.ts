@@ -0,0 +1,74 @@
+import type { ZonedParts } from "./time";
+
+// Standard 5-field cron expressions: minute hour day-of-month month day-of-week.
+// Supports *, lists (1,15), ranges (9-17), steps (*/10, 8-20/2) and 7 as Sunday.
+// When both day fields are restricted, either one matching is enough (as in Vixie cron).
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+function parseField(field: string, index: number): Set<number> {
+  const { name, min, max } = FIELDS[index];
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid ${name} "${part}"`);
+
+    const step = match[3] ? Number(match[3]) : 1;
+    const start = match[1] === "*" ? min : Number(match[1]);
+    // "5/15" means from 5 to the end, every 15
+    const end = match[2] ? Number(match[2]) : match[1] === "*" || match[3] ? max : start;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid ${name} "${part}" — allowed ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(index === 4 && value === 7 ? 0 : value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" needs 5 fields (minute hour day month weekday)`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(parseField);
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+export function cronMatches(schedule: CronSchedule, at: ZonedParts): boolean {
+  if (!schedule.minutes.has(at.minute) || !schedule.hours.has(at.hour) || !schedule.months.has(at.month)) {
+    return false;
+  }
+  const dayOfMonth = schedule.daysOfMonth.has(at.dayOfMonth);
+  const dayOfWeek = schedule.daysOfWeek.has(at.dayOfWeek);
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
@@ -0,0 +1,346 @@
+import { config } from "../config";
+import { runPipeline } from "./pipeline";
+import { publishToPlatform, publishDue, publishKey } from "./post-queue";
+import { runCommentFlow } from "./x-commenter";
+import { collectMetrics } from "./metrics";
+import { selectStrategy } from "./strategy-selector";
+import { RunLog } from "./run-log";
+import { parseCron, cronMatches, CronSchedule } from "./cron";
+import { businessTimeZone, zonedParts, zonedDate, zonedMinuteOfDay, zonedTimeToUtc, parseClock, inClockRange } from "./time";
+import {
+  createDaemonSlots,
+  hasDaemonSlots,
+  listDaemonSlots,
+  getDueDaemonSlot,
+  claimDaemonSlot,
+  finishDaemonSlot,
+  getRunningDaemonSlots,
+  resetDaemonSlot,
+  retryDaemonSlot,
+  setDaemonSlotPostKey,
+  markMissedDaemonSlots,
+  getLastDaemonPostAt,
+  hasLedgerPost,
+  getDaemonJobLastRun,
+  setDaemonJobLastRun,
+  DaemonSlot,
+} from "./x-db";
+
+// Long-running scheduler (bun run tg -- daemon). Wakes once a minute and:
+//   1. plans today's posting slots per platform (once per day, stored in daemon_slots)
+//   2. posts the oldest due slot per platform — inside its window, outside quiet hours
+//   3. fires cron jobs (comment, publish-due, collect-metrics)
+// Everything it has done is in the DB, so a crash or restart resumes instead of starting over.
+
+const TICK_MS = 60 * 1000;
+// After downtime, cron minutes further back than this are not replayed
+const MAX_CATCH_UP_MINUTES = 60;
+// A slot that fails (LLM or network error) runs again later in its window, this many times in all
+const MAX_SLOT_ATTEMPTS = 3;
+// Wait before the next attempt, multiplied by the attempts so far
+const SLOT_RETRY_MINUTES = 15;
+
+interface DaemonJob {
+  name: string;
+  action: "comment" | "publish-due" | "collect-metrics";
+  schedule: CronSchedule;
+}
+
+interface PlatformPlan {
+  platform: string;
+  window: { start: number; end: number };
+  targetPerDay: number;
+}
+
+let stopping = false;
+let busy = false;
+
+function quietHours(): { start: number; end: number } | null {
+  const quiet = config.daemon?.quietHours;
+  if (!quiet) return null;
+  const start = parseClock(quiet.start);
+  const end = parseClock(quiet.end);
+  return start === null || end === null || start === end ? null : { start, end };
+}
+
+function isQuiet(minuteOfDay: number): boolean {
+  const quiet = quietHours();
+  return !!quiet && inClockRange(minuteOfDay, quiet.start, quiet.end);
+}
+
+function getPlatformPlans(): PlatformPlan[] {
+  const plans: PlatformPlan[] = [];
+  for (const [platform, settings] of Object.entries(config.daemon?.platforms ?? {})) {
+    if (!settings.enabled) continue;
+    const start = parseClock(settings.window.start);
+    const end = parseClock(settings.window.end);
+    if (start === null || end === null) continue;
+    plans.push({ platform, window: { start, end }, targetPerDay: settings.targetPerDay });
+  }
+  return plans;
+}
+
+function getJobs(): DaemonJob[] {
+  return (config.daemon?.jobs ?? []).map(job => ({
+    name: job.name,
+    action: job.action,
+    schedule: parseCron(job.cron),
+  }));
+}
+
+// Spreads targetPerDay slots over the minutes the platform may post on that date: the window
+// is cut into equal stretches and each slot lands at a random minute inside its stretch.
+export function planDaySlots(date: string, plan: PlatformPlan, timeZoneName: string = businessTimeZone()): Date[] {
+  const allowed: number[] = [];
+  for (let minute = 0; minute < 24 * 60; minute++) {
+    if (inClockRange(minute, plan.window.start, plan.window.end) && !isQuiet(minute)) allowed.push(minute);
+  }
+  const count = Math.min(plan.targetPerDay, allowed.length);
+  if (count <= 0) return [];
+
+  const slots: Date[] = [];
+  for (let i = 0; i < count; i++) {
+    const from = Math.floor((i * allowed.length) / count);
+    const to = Math.floor(((i + 1) * allowed.length) / count);
+    const minute = allowed[from + Math.floor(Math.random() * (to - from))];
+    slots.push(zonedTimeToUtc(date, minute, timeZoneName));
+  }
+  return slots.sort((a, b) => a.getTime() - b.getTime());
+}
+
+function ensureDayPlanned(date: string, plans: PlatformPlan[]): void {
+  for (const plan of plans) {
+    if (hasDaemonSlots(plan.platform, date)) continue;
+    // Capped by the platform's daily limit — more slots would only be skipped
+    const cap = dailyCap(plan.platform);
+    const slots = planDaySlots(date, { ...plan, targetPerDay: Math.min(plan.targetPerDay, cap) });
+    createDaemonSlots(plan.platform, date, slots.map(at => at.toISOString()));
+    const times = slots.map(at => zonedParts(at, businessTimeZone())).map(p => `${String(p.hour).padStart(2, "0")}:${String(p.minute).padStart(2, "0")}`);
+    console.log(`[DAEMON] ${date} ${plan.platform}: ${slots.length} slot(s) at ${times.join(", ") || "—"}`);
+  }
+}
+
+function dailyCap(platform: string): number {
+  if (platform === "facebook") return config.facebook.postsPerDay;
+  if (platform === "instagram") return config.instagram.postsPerDay;
+  return config.x.postsPerDay;
+}
+
+// A slot left "running" means the process died mid-post. If the slot's own post made it into
+// the posts table the slot is done; otherwise it goes back to pending and runs again. Posts
+// from other runs on the same platform (tg, publish-due) don't count.
+export function recoverSlots(): void {
+  for (const slot of getRunningDaemonSlots()) {
+    const posted = slot.post_key !== null && hasLedgerPost(slot.post_key);
+    if (posted) {
+      finishDaemonSlot(slot.id, "done", null);
+      console.log(`[DAEMON] Recovered slot ${slot.date} ${slot.platform}#${slot.slot_index + 1}: already posted`);
+    } else if ((slot.attempts ?? 0) >= MAX_SLOT_ATTEMPTS) {
+      finishDaemonSlot(slot.id, "failed", `process died during attempt ${slot.attempts} of ${MAX_SLOT_ATTEMPTS}`);
+      console.log(`[DAEMON] Recovered slot ${slot.date} ${slot.platform}#${slot.slot_index + 1}: not posted, out of attempts`);
+    } else {
+      resetDaemonSlot(slot.id);
+      console.log(`[DAEMON] Recovered slot ${slot.date} ${slot.platform}#${slot.slot_index + 1}: not posted, will retry`);
+    }
+  }
+}
+
+// After a failed attempt: pending again a little later if attempts are left and the retry
+// still falls inside the slot's window on its day, failed otherwise. Returns the retry time.
+function retryOrFail(slot: DaemonSlot, plan: PlatformPlan, attempt: number, error: string): string | null {
+  const retryAt = new Date(Date.now() + SLOT_RETRY_MINUTES * attempt * 60 * 1000);
+  const inWindow = zonedDate(retryAt, businessTimeZone()) === slot.date
+    && inClockRange(zonedMinuteOfDay(retryAt, businessTimeZone()), plan.window.start, plan.window.end);
+
+  if (attempt < MAX_SLOT_ATTEMPTS && inWindow) {
+    retryDaemonSlot(slot.id, retryAt.toISOString(), error);
+    return retryAt.toISOString();
+  }
+  const reason = attempt < MAX_SLOT_ATTEMPTS ? "window closed" : `${attempt} attempts`;
+  finishDaemonSlot(slot.id, "failed", `${error} (gave up: ${reason})`);
+  return null;
+}
+
+async function runSlot(slot: DaemonSlot, plan: PlatformPlan): Promise<void> {
+  const runLog = new RunLog("daemon");
+  if (!claimDaemonSlot(slot.id, runLog.runId)) return;
+
+  const attempt = (slot.attempts ?? 0) + 1;
+  const label = `slot ${slot.date} ${slot.platform}#${slot.slot_index + 1}`;
+  console.log(`[DAEMON] Running ${label} (run ${runLog.runId}, attempt ${attempt}/${MAX_SLOT_ATTEMPTS})`);
+  const startTime = Date.now();
+  let key: string | null = null;
+
+  try {
+    const choice = selectStrategy([slot.platform]);
+    const result = await runPipeline({
+      runId: runLog.runId,
+      platforms: [slot.platform],
+      strategy: choice.strategy,
+      strategyReason: choice.reason,
+      quiet: true,
+      forceImage: slot.platform === "instagram",
+    });
+    if (result.status === "error") throw new Error(`Pipeline failed: ${result.error}`);
+
+    const piece = result.content.find(c => c.platform === slot.platform);
+    if (!piece) throw new Error(`No ${slot.platform} content generated`);
+
+    key = publishKey(slot.platform, piece.text);
+    if (key) setDaemonSlotPostKey(slot.id, key);
+    const outcome = await publishToPlatform(slot.platform, piece.text, result.currentPost?.imagePath ?? null, piece.strategy, label, piece.sourceUrl ?? null);
+    let retryAt: string | null = null;
+    if (outcome.status === "posted" || outcome.status === "dry_run") {
+      finishDaemonSlot(slot.id, "done");
+    } else if (outcome.status === "skipped") {
+      finishDaemonSlot(slot.id, "skipped", outcome.reason ?? null);
+    } else if (key && hasLedgerPost(key)) {
+      // The post may have gone out (an attempt that never finished) — another run could double it
+      finishDaemonSlot(slot.id, "failed", outcome.reason ?? null);
+    } else {
+      retryAt = retryOrFail(slot, plan, attempt, outcome.reason ?? "Unknown error");
+    }
+    runLog.step("slot", outcome.status === "error" ? "error" : outcome.status === "skipped" ? "skipped" : "ok", {
+      platform: slot.platform,
+      date: slot.date,
+      slot: slot.slot_index + 1,
+      scheduledAt: slot.scheduled_at,
+      attempt,
+      ...(retryAt ? { retryAt } : {}),
+      ...outcome,
+    }, Date.now() - startTime);
+    console.log(`[DAEMON] ${label}: ${outcome.status}${outcome.reason ? ` (${outcome.reason})` : ""}${retryAt ? ` — retrying at ${retryAt}` : ""}`);
+  } catch (error: any) {
+    const retryAt = key && hasLedgerPost(key)
+      ? (finishDaemonSlot(slot.id, "failed", error.message), null)
+      : retryOrFail(slot, plan, attempt, error.message);
+    runLog.step("slot", "error", { platform: slot.platform, date: slot.date, attempt, error: error.message, ...(retryAt ? { retryAt } : {}) }, Date.now() - startTime);
+    console.error(`[DAEMON] ${label} failed: ${error.message}${retryAt ? ` — retrying at ${retryAt}` : ""}`);
+  }
+}
+
+async function runJob(job: DaemonJob): Promise<void> {
+  const runLog = new RunLog("daemon");
+  console.log(`[DAEMON] Job ${job.name} (${job.action}, run ${runLog.runId})`);
+  try {
+    if (job.action === "comment") {
+      await runLog.timed(`job.${job.name}`, runCommentFlow, r => ({
+        status: !r.success ? "error" : r.commentsPosted === 0 ? "empty" : "ok",
+        data: r,
+      }));
+    } else if (job.action === "publish-due") {
+      await runLog.timed(`job.${job.name}`, publishDue, r => ({
+        status: r.errors.length > 0 ? "error" : r.posted === 0 ? "empty" : "ok",
+        data: r,
+      }));
+    } else {
+      await runLog.timed(`job.${job.name}`, () => collectMetrics(), r => ({
+        status: r.errors.length > 0 ? "error" : r.collected === 0 ? "empty" : "ok",
+        data: r,
+      }));
+    }
+  } catch (error: any) {
+    console.error(`[DAEMON] Job ${job.name} failed: ${error.message}`);
+  }
+}
+
+// Cron minutes between the job's last run and now (bounded), so a long pipeline run
+// doesn't make a job skip its minute
+function isJobDue(job: DaemonJob, now: Date): boolean {
+  const lastRun = getDaemonJobLastRun(job.name);
+  const nowMinute = Math.floor(now.getTime() / 60000);
+  const oldest = nowMinute - MAX_CATCH_UP_MINUTES + 1;
+  const from = lastRun ? Math.max(Math.floor(new Date(lastRun).getTime() / 60000) + 1, oldest) : nowMinute;
+
+  for (let minute = nowMinute; minute >= from; minute--) {
+    if (cronMatches(job.schedule, zonedParts(new Date(minute * 60000), businessTimeZone()))) return true;
+  }
+  return false;
+}
+
+async function tick(plans: PlatformPlan[], jobs: DaemonJob[]): Promise<void> {
+  const now = new Date();
+  const today = zonedDate(now, businessTimeZone());
+  const minuteOfDay = zonedMinuteOfDay(now, businessTimeZone());
+  const quiet = isQuiet(minuteOfDay);
+
+  const missed = markMissedDaemonSlots(today);
+  if (missed > 0) console.log(`[DAEMON] ${missed} slot(s) from earlier days were never run — marked missed`);
+  ensureDayPlanned(today, plans);
+
+  if (!quiet) {
+    for (const plan of plans) {
+      if (stopping) return;
+      if (!inClockRange(minuteOfDay, plan.window.start, plan.window.end)) continue;
+
+      // Catching up after downtime: don't fire several overdue slots back to back
+      const lastPost = getLastDaemonPostAt(plan.platform);
+      const minGapMs = (config.daemon?.minGapMinutes ?? 45) * 60 * 1000;
+      if (lastPost && now.getTime() - new Date(lastPost).getTime() < minGapMs) continue;
+
+      const slot = getDueDaemonSlot(plan.platform, now.toISOString());
+      if (slot) await runSlot(slot, plan);
+    }
+  }
+
+  for (const job of jobs) {
+    if (stopping) return;
+    if (!isJobDue(job, now)) continue;
+    // Recorded before running: a crash mid-job waits for the next cron time instead of repeating
+    setDaemonJobLastRun(job.name, now.toISOString());
+    if (quiet && job.action !== "collect-metrics") {
+      console.log(`[DAEMON] Job ${job.name} skipped — quiet hours`);
+      continue;
+    }
+    await runJob(job);
+  }
+}
+
+function printToday(): void {
+  const today = zonedDate(new Date(), businessTimeZone());
+  for (const slot of listDaemonSlots(today)) {
+    const local = zonedParts(new Date(slot.scheduled_at), businessTimeZone());
+    const time = `${String(local.hour).padStart(2, "0")}:${String(local.minute).padStart(2, "0")}`;
+    console.log(`  ${time}  ${slot.platform.padEnd(10)} ${slot.status}${slot.error ? ` — ${slot.error}` : ""}`);
+  }
+}
+
+// Runs until SIGINT/SIGTERM. A signal during a post lets it finish before exiting.
+export async function runDaemon(): Promise<void> {
+  const plans = getPlatformPlans();
+  const jobs = getJobs();
+  console.log(`[DAEMON] Timezone ${businessTimeZone()}, quiet hours ${config.daemon?.quietHours ? `${config.daemon.quietHours.start}-${config.daemon.quietHours.end}` : "off"}`);
+  console.log(`[DAEMON] Platforms: ${plans.map(p => `${p.platform} (${p.targetPerDay}/day)`).join(", ") || "none"}`);
+  console.log(`[DAEMON] Jobs: ${jobs.map(j => j.name).join(", ") || "none"}`);
+
+  recoverSlots();
+  ensureDayPlanned(zonedDate(new Date(), businessTimeZone()), plans);
+  console.log(`[DAEMON] Today:`);
+  printToday();
+
+  await new Promise<void>(resolve => {
+    const stop = (signal: string) => {
+      console.log(`[DAEMON] ${signal} received — ${busy ? "finishing the current task first" : "stopping"}`);
+      stopping = true;
+      if (!busy) resolve();
+    };
+    process.on("SIGINT", () => stop("SIGINT"));
+    process.on("SIGTERM", () => stop("SIGTERM"));
+
+    const loop = async () => {
+      if (stopping) return resolve();
+      busy = true;
+      try {
+        await tick(plans, jobs);
+      } catch (error: any) {
+        console.error(`[DAEMON] Tick failed: ${error.message}`);
+      }
+      busy = false;
+      if (stopping) return resolve();
+      // Wake just after the next minute boundary
+      setTimeout(loop, TICK_MS - (Date.now() % TICK_MS) + 500);
+    };
+    loop();
+  });
+  console.log("[DAEMON] Stopped");
+}
@@ -0,0 +1,91 @@
+import { getPostHistory, HistoryPost } from "./x-db";
+
+// TF-IDF cosine similarity over the full post history in SQLite.
+// Unigrams catch shared vocabulary, bigrams catch reused phrasing — a rewrite that
+// only swaps a few words still scores high, while two posts on the same coin don't.
+
+export interface DuplicateMatch {
+  post: HistoryPost;
+  score: number;
+}
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have",
+  "i", "if", "in", "is", "it", "its", "just", "me", "my", "not", "of", "on", "or", "our",
+  "so", "that", "the", "their", "this", "to", "was", "we", "what", "when", "who", "will",
+  "with", "you", "your",
+]);
+
+function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/[^\p{L}\p{N}$#\s]/gu, " ")
+    .split(/\s+/)
+    .map(word => word.replace(/^#/, ""))
+    .filter(word => word.length > 1 && !STOPWORDS.has(word));
+
+  const terms = [...words];
+  for (let i = 0; i < words.length - 1; i++) {
+    terms.push(`${words[i]} ${words[i + 1]}`);
+  }
+  return terms;
+}
+
+function termFrequencies(terms: string[]): Map<string, number> {
+  const tf = new Map<string, number>();
+  for (const term of terms) {
+    tf.set(term, (tf.get(term) || 0) + 1);
+  }
+  return tf;
+}
+
+function weigh(tf: Map<string, number>, idf: (term: string) => number): { weights: Map<string, number>; norm: number } {
+  const weights = new Map<string, number>();
+  let sumSquares = 0;
+  for (const [term, count] of tf) {
+    const weight = (1 + Math.log(count)) * idf(term);
+    weights.set(term, weight);
+    sumSquares += weight * weight;
+  }
+  return { weights, norm: Math.sqrt(sumSquares) };
+}
+
+// Finds the most similar post in history. Returns null when history is empty.
+export function findNearestPost(text: string, history: HistoryPost[] = getPostHistory()): DuplicateMatch | null {
+  if (history.length === 0) return null;
+
+  const candidateTf = termFrequencies(tokenize(text));
+  const historyTf = history.map(post => termFrequencies(tokenize(post.text)));
+
+  // Document frequencies across history + the candidate itself
+  const df = new Map<string, number>();
+  for (const tf of [candidateTf, ...historyTf]) {
+    for (const term of tf.keys()) {
+      df.set(term, (df.get(term) || 0) + 1);
+    }
+  }
+  const docCount = history.length + 1;
+  const idf = (term: string) => Math.log((1 + docCount) / (1 + (df.get(term) || 0))) + 1;
+
+  const candidate = weigh(candidateTf, idf);
+  if (candidate.norm === 0) return null;
+
+  let best: DuplicateMatch | null = null;
+  for (let i = 0; i < history.length; i++) {
+    const other = weigh(historyTf[i], idf);
+    if (other.norm === 0) continue;
+
+    let dot = 0;
+    for (const [term, weight] of candidate.weights) {
+      const otherWeight = other.weights.get(term);
+      if (otherWeight) dot += weight * otherWeight;
+    }
+    const score = dot / (candidate.norm * other.norm);
+    if (!best || score > best.score) {
+      best = { post: history[i], score };
+    }
+  }
+
+  return best;
+}
@@ -1,5 +1,5 @@
 import { config } from "../config";
-import { logPost, incrementFbPostCount } from "./x-db";
+import { beginPostAttempt, markPostPublished, markPostFailed, logDryRunPost, idempotencyKey } from "./x-db";
 import fs from "fs";
 
 export interface FbPostResult {
@@ -7,24 +7,19 @@ export interface FbPostResult {
   postId?: string;
   error?: string;
   dryRun?: boolean;
+  duplicate?: boolean;           // the same text was already published — postId is the earlier post
 }
 
 const GRAPH_API = "https://graph.facebook.com/v19.0";
 
-export async function postToFacebook(text: string, imagePath?: string | null): Promise<FbPostResult> {
+// sourceUrl is only recorded — content generation already put the link in the text
+export async function postToFacebook(text: string, imagePath?: string | null, strategy?: string, sourceUrl?: string | null): Promise<FbPostResult> {
   if (config.facebook.dryRun) {
     console.log(`[DRY RUN] Would post to Facebook: ${text.substring(0, 100)}...`);
     if (imagePath) {
       console.log(`[DRY RUN] Would attach image: ${imagePath}`);
     }
-    logPost({
-      tweet_id: "fb_dry_run_" + Date.now(),
-      text,
-      image_path: imagePath ?? null,
-      posted_at: new Date().toISOString(),
-      status: "dry_run",
-      platform: "facebook",
-    });
+    logDryRunPost({ platform: "facebook", text, image_path: imagePath ?? null, strategy, source_url: sourceUrl });
     return { success: true, dryRun: true };
   }
 
@@ -32,6 +27,19 @@ export async function postToFacebook(text: string, imagePath?: string | null): P
     return { success: false, error: "Missing Facebook pageId or pageAccessToken in config.ts" };
   }
 
+  const ledger = beginPostAttempt(
+    { platform: "facebook", text, image_path: imagePath ?? null, strategy, source_url: sourceUrl },
+    idempotencyKey("facebook", text)
+  );
+  if ("duplicate" in ledger) {
+    const earlier = ledger.duplicate;
+    if (earlier.status === "published") {
+      console.log(`[SKIP] Same text already posted to Facebook as ${earlier.tweet_id} (post #${earlier.id})`);
+      return { success: true, postId: earlier.tweet_id ?? undefined, duplicate: true };
+    }
+    return { success: false, error: `Post #${earlier.id} with the same text never finished — check Facebook before retrying` };
+  }
+
   const maxRetries = 3;
   const retryDelay = 2000;
 
@@ -80,16 +88,7 @@ export async function postToFacebook(text: string, imagePath?: string | null): P
       const postId = result.id || result.post_id;
       console.log(`Facebook post published: ${postId}`);
 
-      logPost({
-        tweet_id: postId,
-        text,
-        image_path: imagePath ?? null,
-        posted_at: new Date().toISOString(),
-        status: "success",
-        platform: "facebook",
-      });
-
-      incrementFbPostCount();
+      markPostPublished(ledger.id, postId);
 
       return { success: true, postId };
     } catch (error: any) {
@@ -105,14 +104,7 @@ export async function postToFacebook(text: string, imagePath?: string | null): P
 
       console.error(`Failed to post to Facebook: ${errorMessage}`);
 
-      logPost({
-        tweet_id: "fb_failed_" + Date.now(),
-        text,
-        image_path: imagePath ?? null,
-        posted_at: new Date().toISOString(),
-        status: "failed",
-        platform: "facebook",
-      });
+      markPostFailed(ledger.id, errorMessage);
 
       // Auth errors
       if (errorCode === 190 || errorCode === 200 || errorMessage.includes("access token")) {
@@ -128,6 +120,7 @@ export async function postToFacebook(text: string, imagePath?: string | null): P
     }
   }
 
+  markPostFailed(ledger.id, "Max retries exceeded");
   return { success: false, error: "Max retries exceeded" };
 }
 
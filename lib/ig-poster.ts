@@ -0,0 +1,226 @@
+import { config } from "../config";
+import { beginPostAttempt, markPostPublished, markPostFailed, logDryRunPost, idempotencyKey } from "./x-db";
+import fs from "fs";
+
+export interface IgPostResult {
+  success: boolean;
+  postId?: string;
+  error?: string;
+  dryRun?: boolean;
+  duplicate?: boolean;           // the same text was already published — postId is the earlier post
+}
+
+const GRAPH_API = "https://graph.facebook.com/v19.0";
+
+// Container processing is usually instant for images, but can lag a few seconds
+const CONTAINER_POLL_ATTEMPTS = 10;
+const CONTAINER_POLL_DELAY = 3000;
+
+const MAX_RETRIES = 3;
+const RETRY_DELAY = 2000;
+
+// sourceUrl is only recorded — captions can't link, content generation added a "link in bio" note
+export async function postToInstagram(text: string, imagePath?: string | null, strategy?: string, sourceUrl?: string | null): Promise<IgPostResult> {
+  if (!imagePath || !fs.existsSync(imagePath)) {
+    return { success: false, error: "No image available — Instagram posts require an image" };
+  }
+
+  if (config.instagram.dryRun) {
+    console.log(`[DRY RUN] Would post to Instagram: ${text.substring(0, 100)}...`);
+    console.log(`[DRY RUN] Would attach image: ${imagePath}`);
+    logDryRunPost({ platform: "instagram", text, image_path: imagePath, strategy, source_url: sourceUrl });
+    return { success: true, dryRun: true };
+  }
+
+  if (!config.instagram.igUserId || !config.instagram.pageId || !config.instagram.pageAccessToken) {
+    return { success: false, error: "Missing Instagram igUserId, pageId or pageAccessToken in config.ts" };
+  }
+
+  const ledger = beginPostAttempt(
+    { platform: "instagram", text, image_path: imagePath, strategy, source_url: sourceUrl },
+    idempotencyKey("instagram", text)
+  );
+  if ("duplicate" in ledger) {
+    const earlier = ledger.duplicate;
+    if (earlier.status === "published") {
+      console.log(`[SKIP] Same text already posted to Instagram as ${earlier.tweet_id} (post #${earlier.id})`);
+      return { success: true, postId: earlier.tweet_id ?? undefined, duplicate: true };
+    }
+    return { success: false, error: `Post #${earlier.id} with the same text never finished — check Instagram before retrying` };
+  }
+
+  try {
+    // Step 1: Instagram only accepts a public image_url — host the image on the linked Page first
+    const imageUrl = await uploadImageToPage(imagePath);
+
+    // Step 2: Create media container
+    console.log(`Creating Instagram media container...`);
+    const container = await withRetry("media container", () => graphPost(`${config.instagram.igUserId}/media`, {
+      image_url: imageUrl,
+      caption: text,
+    }));
+
+    await waitForContainer(container.id);
+
+    // Step 3: Publish container
+    const postId = await publishContainer(container.id, text);
+    console.log(`Instagram post published: ${postId}`);
+
+    markPostPublished(ledger.id, postId);
+
+    return { success: true, postId };
+  } catch (error: any) {
+    const errorMessage = error.message || "Unknown error";
+    const errorCode = error.code;
+
+    // The ledger row stays "attempted", so a rerun can't post it a second time
+    if (error instanceof IgApiError && error.uncertain) {
+      console.error(`Instagram publish outcome unknown: ${errorMessage}`);
+      return { success: false, error: `Post #${ledger.id} may have been published — check Instagram before retrying (${errorMessage})` };
+    }
+
+    console.error(`Failed to post to Instagram: ${errorMessage}`);
+
+    markPostFailed(ledger.id, errorMessage);
+
+    // Auth errors
+    if (errorCode === 190 || errorCode === 200 || errorMessage.includes("access token")) {
+      return { success: false, error: "Auth error - check Instagram pageAccessToken in config.ts" };
+    }
+
+    // Rate limiting (content publishing is capped at 25 posts per 24h)
+    if (errorCode === 32 || errorCode === 4 || errorCode === 9 || errorMessage.includes("limit")) {
+      return { success: false, error: "Rate limited by Instagram API" };
+    }
+
+    return { success: false, error: errorMessage };
+  }
+}
+
+// 5xx, Graph's "temporary" codes (1, 2) and network failures are worth another try
+function isTransient(error: any): boolean {
+  if (!(error instanceof IgApiError)) return true;
+  return error.status >= 500 || error.code === 1 || error.code === 2 || error.message.includes("temporarily unavailable");
+}
+
+// Retries one Graph call — never a whole sequence, so an earlier step that succeeded isn't repeated
+async function withRetry<T>(label: string, call: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error: any) {
+      if (!isTransient(error) || attempt >= MAX_RETRIES) throw error;
+      console.log(`[RETRY] Instagram ${label} failed (${error.message}), attempt ${attempt}/${MAX_RETRIES}, waiting ${RETRY_DELAY}ms...`);
+      await new Promise(r => setTimeout(r, RETRY_DELAY));
+    }
+  }
+}
+
+// media_publish isn't idempotent: a 5xx can come back for a post that went live. Before trying
+// again the container is asked — PUBLISHED means it did, and the new media is looked up instead.
+async function publishContainer(containerId: string, caption: string): Promise<string> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const published = await graphPost(`${config.instagram.igUserId}/media_publish`, { creation_id: containerId });
+      return published.id;
+    } catch (error: any) {
+      if (!isTransient(error)) throw error;
+
+      const status = await withRetry("container status", () => graphGet(containerId, "status_code")).catch(() => null);
+      if (status?.status_code === "PUBLISHED") {
+        const mediaId = await findRecentMedia(caption);
+        if (mediaId) return mediaId;
+        throw new IgApiError(`media_publish failed (${error.message}) but the container reports PUBLISHED`, 0, 0, true);
+      }
+      if (status?.status_code !== "FINISHED") {
+        throw new IgApiError(`media_publish failed (${error.message}) and the container state is unknown`, 0, 0, true);
+      }
+      // Still FINISHED — nothing went live, so publishing again is safe
+      if (attempt >= MAX_RETRIES) throw error;
+      console.log(`[RETRY] Instagram media_publish failed (${error.message}), attempt ${attempt}/${MAX_RETRIES}, waiting ${RETRY_DELAY}ms...`);
+      await new Promise(r => setTimeout(r, RETRY_DELAY));
+    }
+  }
+}
+
+// The newest media with this exact caption, if it's among the last few posts
+async function findRecentMedia(caption: string): Promise<string | null> {
+  const recent = await withRetry("media lookup", () => graphGet(`${config.instagram.igUserId}/media`, "id,caption", { limit: "5" }))
+    .catch(() => null);
+  const match = recent?.data?.find((media: any) => media.caption === caption);
+  return match?.id ?? null;
+}
+
+// Uploads the image to the linked Facebook Page as an unpublished photo and returns its CDN URL
+async function uploadImageToPage(imagePath: string): Promise<string> {
+  console.log(`Uploading image to Facebook Page for Instagram: ${imagePath}`);
+  const formData = new FormData();
+  const imageBuffer = fs.readFileSync(imagePath);
+  formData.append("source", new Blob([imageBuffer]), imagePath.split("/").pop() || "image");
+  formData.append("published", "false");
+  formData.append("access_token", config.instagram.pageAccessToken);
+
+  const photo = await withRetry("photo upload", async () => {
+    const response = await fetch(`${GRAPH_API}/${config.instagram.pageId}/photos`, {
+      method: "POST",
+      body: formData,
+    });
+    return readGraphResponse(response);
+  });
+
+  const details = await withRetry("photo URL", () => graphGet(photo.id, "images"));
+  // images[] is sorted largest first
+  const url = details.images?.[0]?.source;
+  if (!url) {
+    throw new IgApiError("Facebook returned no image URL for uploaded photo");
+  }
+  return url;
+}
+
+async function waitForContainer(containerId: string): Promise<void> {
+  for (let i = 0; i < CONTAINER_POLL_ATTEMPTS; i++) {
+    const status = await withRetry("container status", () => graphGet(containerId, "status_code"));
+    if (status.status_code === "FINISHED") return;
+    if (status.status_code === "ERROR" || status.status_code === "EXPIRED") {
+      throw new IgApiError(`Instagram media container ${status.status_code.toLowerCase()}`);
+    }
+    await new Promise(r => setTimeout(r, CONTAINER_POLL_DELAY));
+  }
+  throw new IgApiError("Instagram media container not ready in time");
+}
+
+async function graphPost(endpoint: string, body: Record<string, string>): Promise<any> {
+  const response = await fetch(`${GRAPH_API}/${endpoint}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...body, access_token: config.instagram.pageAccessToken }),
+  });
+  return readGraphResponse(response);
+}
+
+async function graphGet(id: string, fields: string, extra: Record<string, string> = {}): Promise<any> {
+  const params = new URLSearchParams({ ...extra, fields, access_token: config.instagram.pageAccessToken });
+  const response = await fetch(`${GRAPH_API}/${id}?${params}`);
+  return readGraphResponse(response);
+}
+
+// A gateway error can come back as HTML, so the body is parsed leniently
+async function readGraphResponse(response: Response): Promise<any> {
+  const result: any = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new IgApiError(result.error?.message || `HTTP ${response.status}`, result.error?.code, response.status);
+  }
+  return result;
+}
+
+class IgApiError extends Error {
+  code: number;                  // Graph API error code
+  status: number;                // HTTP status
+  uncertain: boolean;            // the post may or may not be live
+  constructor(message: string, code?: number, status?: number, uncertain: boolean = false) {
+    super(message);
+    this.code = code || 0;
+    this.status = status || 0;
+    this.uncertain = uncertain;
+  }
+}
@@ -2,8 +2,8 @@ import { mkdir, writeFile } from "fs/promises";
 import { join } from "path";
 import { makeRequest } from "./claude";
 import { config } from "../config";
+import { profilePath } from "./profile";
 
-const CURRENT_POST_DIR = join(process.cwd(), "current_post");
 const RUNWARE_API_URL = "https://api.runware.ai/v1";
 
 export interface CurrentPost {
@@ -93,7 +93,8 @@ export async function saveCurrentPost(
   idea: string,
   forceImage: boolean = false,
 ): Promise<CurrentPost> {
-  await mkdir(CURRENT_POST_DIR, { recursive: true });
+  const currentPostDir = profilePath("current_post");
+  await mkdir(currentPostDir, { recursive: true });
 
   const roll = Math.random();
   const generateImage = forceImage || (config.image.enabled && roll < config.image.imageChance);
@@ -113,7 +114,7 @@ export async function saveCurrentPost(
 
       const imageUrl = await callRunwareAPI(imagePrompt);
       const ext = config.image.outputFormat.toLowerCase();
-      imagePath = join(CURRENT_POST_DIR, `image.${ext}`);
+      imagePath = join(currentPostDir, `image.${ext}`);
       await downloadImage(imageUrl, imagePath);
       console.error(`[IMAGE] Saved → ${imagePath}`);
     } catch (err: any) {
@@ -131,7 +132,7 @@ export async function saveCurrentPost(
   };
 
   await writeFile(
-    join(CURRENT_POST_DIR, "post.json"),
+    join(currentPostDir, "post.json"),
     JSON.stringify(currentPost, null, 2),
   );
 
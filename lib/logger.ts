@@ -1,34 +1,29 @@
 import fs from 'fs/promises';
 import path from 'path';
+import type { DuplicateMatch } from './duplicates';
+import { profilePath } from './profile';
+import { redact, redactText } from './redact';
+import type { RunLog, StepStatus } from './run-log';
 
-interface LogEntry {
-  timestamp: string;
-  step: string;
-  data: any;
-  details?: string;
-}
-
+// Process log for one pipeline run. Every entry goes to the structured run log
+// (logs/runs/*.jsonl) and, unless quiet, to stderr — redacted before either.
 export class Logger {
-  private logEntries: LogEntry[] = [];
-  private businessName: string;
   private quiet: boolean;
+  private runLog: RunLog | null;
 
-  constructor(businessName: string, quiet: boolean = false) {
-    this.businessName = businessName.replace(/[^a-zA-Z0-9]/g, '_');
+  constructor(quiet: boolean = false, runLog: RunLog | null = null) {
     this.quiet = quiet;
+    this.runLog = runLog;
   }
 
   log(step: string, data: any, details?: string) {
-    const entry: LogEntry = {
-      timestamp: new Date().toISOString(),
-      step,
-      data,
-      details
-    };
-
-    this.logEntries.push(entry);
+    const masked = redact(data);
+    this.runLog?.step(step.toLowerCase(), step === 'ERROR' ? 'error' : 'ok', {
+      ...(details ? { details: redactText(details) } : {}),
+      ...(typeof masked === 'object' && masked !== null && !Array.isArray(masked) ? masked : { value: masked })
+    });
     if (!this.quiet) {
-      console.error(`[PROCESS LOG] ${step}:`, data);
+      console.error(`[PROCESS LOG] ${step}:`, masked);
     }
   }
 
@@ -38,40 +33,15 @@ export class Logger {
     }
   }
 
-  async saveToFile(): Promise<string> {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-    const filename = `process_log_${this.businessName}_${timestamp}.txt`;
-    const logDir = path.join(process.cwd(), 'logs', 'process_logs');
-    const filepath = path.join(logDir, filename);
-
-    // Ensure process_logs directory exists
-    await fs.mkdir(logDir, { recursive: true });
-
-    let content = '';
-    content += '='.repeat(80) + '\n';
-    content += `BUSINESS TREND ANALYSIS PROCESS LOG\n`;
-    content += `Generated: ${new Date().toISOString()}\n`;
-    content += '='.repeat(80) + '\n\n';
-
-    for (const entry of this.logEntries) {
-      content += `[${entry.timestamp}] ${entry.step}\n`;
-      content += '-'.repeat(50) + '\n';
-
-      if (entry.details) {
-        content += `Details: ${entry.details}\n\n`;
-      }
-
-      if (typeof entry.data === 'object') {
-        content += JSON.stringify(entry.data, null, 2) + '\n';
-      } else {
-        content += `${entry.data}\n`;
-      }
-
-      content += '\n' + '='.repeat(80) + '\n\n';
-    }
+  // One run-log step per trend source — shows which source keeps coming back empty
+  logSourceResult(source: string, enabled: boolean, count: number, durationMs: number, error?: string) {
+    const status: StepStatus = !enabled ? 'skipped' : error ? 'error' : count === 0 ? 'empty' : 'ok';
+    this.runLog?.step(`source.${source}`, status, { count, ...(error ? { error } : {}) }, durationMs);
+  }
 
-    await fs.writeFile(filepath, content, 'utf-8');
-    return filepath;
+  // Times a pipeline step in the run log
+  timed<T>(step: string, fn: () => Promise<T>, describe?: (result: T) => { status?: StepStatus; data?: unknown }): Promise<T> {
+    return this.runLog ? this.runLog.timed(step, fn, describe) : fn();
   }
 
   // Helper methods for specific logging scenarios
@@ -79,6 +49,25 @@ export class Logger {
     this.log('INPUT_RECEIVED', businessData, 'Initial business data provided by user');
   }
 
+  logStrategySelection(strategy: string, reason: string) {
+    this.log('STRATEGY_SELECTION', {
+      strategy,
+      reason
+    }, 'How the post strategy was chosen');
+  }
+
+  logDuplicateCheck(platform: string, match: DuplicateMatch | null, threshold: number, isDuplicate: boolean, attempt: number) {
+    this.log('DUPLICATE_CHECK', {
+      platform,
+      attempt: attempt + 1,
+      threshold,
+      nearest_score: match ? Number(match.score.toFixed(3)) : null,
+      nearest_post: match ? `${match.post.source} #${match.post.id} (${match.post.platform})` : null,
+      nearest_text: match ? match.post.text.substring(0, 140) : null,
+      duplicate: isDuplicate
+    }, 'Similarity of generated content against post history');
+  }
+
   logKeywordGeneration(keywords: string[], prompt: string) {
     this.log('KEYWORDS_GENERATED', {
       keywords,
@@ -134,7 +123,8 @@ export class Logger {
         title: a.headline || a.title,
         link: a.url || a.link,
         pubDate: a.publishedAt || a.pubDate,
-        description: a.description
+        description: a.description,
+        sources: a.sources
       })),
       count: articles.length
     }, 'Crypto & AI news articles fetched');
@@ -177,7 +167,7 @@ export class Logger {
   }
 
   static async logPost(businessName: string, platform: string, postText: string): Promise<void> {
-    const postLogDir = path.join(process.cwd(), 'logs', 'post_logs');
+    const postLogDir = profilePath('logs', 'post_logs');
     await fs.mkdir(postLogDir, { recursive: true });
 
     const snippet = Logger.snippetFromPost(postText);
@@ -198,7 +188,7 @@ export class Logger {
   }
 
   static async getRecentPostSnippets(limit: number = 50): Promise<string[]> {
-    const postLogDir = path.join(process.cwd(), 'logs', 'post_logs');
+    const postLogDir = profilePath('logs', 'post_logs');
     try {
       const files = await fs.readdir(postLogDir);
       const posts: string[] = [];
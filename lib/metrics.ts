@@ -0,0 +1,155 @@
+import { config } from "../config";
+import { getClient } from "./x-poster";
+import { getPublishedPostsSince, logPostMetrics, PublishedPost, PostMetricsRecord } from "./x-db";
+
+const GRAPH_API = "https://graph.facebook.com/v19.0";
+
+// X v2 tweet lookup accepts up to 100 IDs per request
+const X_BATCH_SIZE = 100;
+
+type Metrics = Pick<PostMetricsRecord, "likes" | "reposts" | "replies" | "impressions">;
+
+export interface CollectMetricsResult {
+  collected: number;
+  missing: number;
+  errors: string[];
+  byPlatform: Record<string, number>;
+}
+
+// Snapshots engagement for every post published in the last `days` days
+export async function collectMetrics(days: number = 14): Promise<CollectMetricsResult> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const posts = getPublishedPostsSince(since);
+  const result: CollectMetricsResult = { collected: 0, missing: 0, errors: [], byPlatform: {} };
+
+  console.log(`Collecting metrics for ${posts.length} post(s) published since ${since}`);
+
+  const byPlatform: Record<string, PublishedPost[]> = {};
+  for (const post of posts) {
+    (byPlatform[post.platform] ||= []).push(post);
+  }
+
+  for (const [platform, platformPosts] of Object.entries(byPlatform)) {
+    let metrics: Map<string, Metrics>;
+    try {
+      if (platform === "twitter") {
+        metrics = await fetchXMetrics(platformPosts.map(p => p.tweet_id));
+      } else if (platform === "facebook") {
+        metrics = await fetchGraphMetrics(platformPosts.map(p => p.tweet_id), config.facebook.pageAccessToken, fetchFacebookPostMetrics);
+      } else if (platform === "instagram") {
+        metrics = await fetchGraphMetrics(platformPosts.map(p => p.tweet_id), config.instagram.pageAccessToken, fetchInstagramMediaMetrics);
+      } else {
+        console.log(`[SKIP] No metrics collector for platform "${platform}"`);
+        continue;
+      }
+    } catch (error: any) {
+      console.error(`Failed to collect ${platform} metrics: ${error.message}`);
+      result.errors.push(`${platform}: ${error.message}`);
+      continue;
+    }
+
+    const collectedAt = new Date().toISOString();
+    for (const post of platformPosts) {
+      const postMetrics = metrics.get(post.tweet_id);
+      if (!postMetrics) {
+        // Deleted posts, or posts the token can no longer see
+        result.missing++;
+        continue;
+      }
+      logPostMetrics({
+        post_id: post.id,
+        platform,
+        external_id: post.tweet_id,
+        collected_at: collectedAt,
+        ...postMetrics,
+      });
+      result.collected++;
+      result.byPlatform[platform] = (result.byPlatform[platform] || 0) + 1;
+    }
+  }
+
+  return result;
+}
+
+async function fetchXMetrics(tweetIds: string[]): Promise<Map<string, Metrics>> {
+  const twitter = getClient();
+  const metrics = new Map<string, Metrics>();
+
+  for (let i = 0; i < tweetIds.length; i += X_BATCH_SIZE) {
+    const batch = tweetIds.slice(i, i + X_BATCH_SIZE);
+    const response = await twitter.v2.tweets(batch, { "tweet.fields": ["public_metrics"] });
+
+    for (const tweet of response.data || []) {
+      const pm = tweet.public_metrics;
+      if (!pm) continue;
+      metrics.set(tweet.id, {
+        likes: pm.like_count,
+        reposts: pm.retweet_count + (pm.quote_count ?? 0),
+        replies: pm.reply_count,
+        impressions: pm.impression_count ?? null,
+      });
+    }
+  }
+
+  return metrics;
+}
+
+// Graph API has no cheap batch lookup for engagement summaries, so posts are fetched one by one
+async function fetchGraphMetrics(
+  ids: string[],
+  accessToken: string,
+  fetchOne: (id: string, accessToken: string) => Promise<Metrics | null>
+): Promise<Map<string, Metrics>> {
+  if (!accessToken) {
+    throw new Error("Missing pageAccessToken in config.ts");
+  }
+
+  const metrics = new Map<string, Metrics>();
+  for (const id of ids) {
+    const postMetrics = await fetchOne(id, accessToken);
+    if (postMetrics) metrics.set(id, postMetrics);
+  }
+  return metrics;
+}
+
+async function fetchFacebookPostMetrics(id: string, accessToken: string): Promise<Metrics | null> {
+  // Photo posts return a photo ID, which has no shares field — ask for it separately
+  const data = await graphGet(id, "reactions.summary(total_count).limit(0),comments.summary(total_count).limit(0)", accessToken);
+  if (!data) return null;
+  const shares = await graphGet(id, "shares", accessToken);
+
+  return {
+    likes: data.reactions?.summary?.total_count ?? 0,
+    reposts: shares?.shares?.count ?? 0,
+    replies: data.comments?.summary?.total_count ?? 0,
+    impressions: null,
+  };
+}
+
+async function fetchInstagramMediaMetrics(id: string, accessToken: string): Promise<Metrics | null> {
+  const data = await graphGet(id, "like_count,comments_count", accessToken);
+  if (!data) return null;
+
+  return {
+    likes: data.like_count ?? 0,
+    reposts: null,
+    replies: data.comments_count ?? 0,
+    impressions: null,
+  };
+}
+
+// Returns null when the object is gone or the field doesn't apply; throws on auth errors
+async function graphGet(id: string, fields: string, accessToken: string): Promise<any | null> {
+  const params = new URLSearchParams({ fields, access_token: accessToken });
+  const response = await fetch(`${GRAPH_API}/${id}?${params}`);
+  const result: any = await response.json();
+
+  if (!response.ok) {
+    const code = result.error?.code;
+    if (code === 190 || code === 200) {
+      throw new Error("Auth error - check pageAccessToken in config.ts");
+    }
+    return null;
+  }
+  return result;
+}
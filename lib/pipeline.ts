@@ -1,11 +1,12 @@
 import { rm, mkdir } from "fs/promises";
-import { join } from "path";
 import { config } from "../config";
 import { generateKeywords } from "./keywords";
 import { analyzeTrends, generatePostIdeas, PostIdea, TrendData } from "./trends";
 import { generatePlatformContent, GeneratedContent } from "./content";
 import { Logger } from "./logger";
 import { saveCurrentPost, CurrentPost } from "./image";
+import { profilePath } from "./profile";
+import { RunLog } from "./run-log";
 
 export interface PipelineResult {
   status: "success" | "error";
@@ -21,6 +22,7 @@ export interface PipelineResult {
   content: GeneratedContent[];
   currentPost: CurrentPost | null;
   meta: {
+    runId: string;
     timestamp: string;
     processingTimeMs: number;
     sourcesUsed: string[];
@@ -31,10 +33,50 @@ export interface PipelineResult {
   error?: string;
 }
 
+export type BusinessData = ReturnType<typeof getBusinessData>;
+
+// Config business profile, mapped to the property names expected by consumer functions
+export function getBusinessData(strategy?: string) {
+  return {
+    businessName: config.business.name,
+    businessType: config.business.type,
+    ukCity: config.business.city,
+    industry: config.business.industry,
+    targetAudience: config.business.targetAudience,
+    servicesOffered: config.business.servicesOffered,
+    businessPersonality: config.business.personality,
+    postType: strategy || config.business.postType,
+  };
+}
+
+// Caller's keywords win, then a random pick from the config pool, then AI-generated ones
+export async function resolveKeywords(businessData: BusinessData, override: string[] | undefined, logger: Logger): Promise<string[]> {
+  if (override && override.length > 0) {
+    logger.progress(`  Using CLI keywords: ${override.join(", ")}`);
+    logger.logKeywordGeneration(override, "CLI override");
+    return override;
+  }
+
+  // Skip empty entries in the pool
+  const pool = config.output.keywords.filter(k => k.trim());
+  if (pool.length > 0) {
+    const count = Math.min(config.output.keywordsPerRun, pool.length);
+    const keywords = [...pool].sort(() => Math.random() - 0.5).slice(0, count);
+    logger.progress(`  Pool pick: ${keywords.join(", ")}`);
+    logger.logKeywordGeneration(keywords, "Pool pick from config");
+    return keywords;
+  }
+
+  return generateKeywords(businessData, logger);
+}
+
 export async function runPipeline(
   options: {
     platforms?: string[];
     strategy?: "value_first" | "authority_building" | "direct_sales";
+    strategyReason?: string;
+    // Shared with the caller so pipeline and posting steps land under one run ID
+    runId?: string;
     keywords?: string[];
     skipContent?: boolean;
     quiet?: boolean;
@@ -42,25 +84,19 @@ export async function runPipeline(
   } = {}
 ): Promise<PipelineResult> {
   const startTime = Date.now();
-  const currentPostDir = join(process.cwd(), "current_post");
+  const currentPostDir = profilePath("current_post");
   await rm(currentPostDir, { recursive: true, force: true });
   await mkdir(currentPostDir, { recursive: true });
 
-  const logger = new Logger(config.business.name, options.quiet);
+  const runLog = new RunLog("pipeline", options.runId);
+  const logger = new Logger(options.quiet, runLog);
 
-  // Merge config with CLI args, mapping to the property names expected by consumer functions
-  const businessData = {
-    businessName: config.business.name,
-    businessType: config.business.type,
-    ukCity: config.business.city,
-    industry: config.business.industry,
-    targetAudience: config.business.targetAudience,
-    servicesOffered: config.business.servicesOffered,
-    businessPersonality: config.business.personality,
-    postType: options.strategy || config.business.postType,
-  };
+  const businessData = getBusinessData(options.strategy);
 
   logger.logInput(businessData);
+  if (options.strategyReason) {
+    logger.logStrategySelection(businessData.postType, options.strategyReason);
+  }
 
   const platforms = options.platforms || [...config.output.platforms];
   const sourcesUsed: string[] = [];
@@ -69,32 +105,18 @@ export async function runPipeline(
   if (config.sources.xcom) sourcesUsed.push("xcom");
   if (config.sources.reddit.enabled) sourcesUsed.push("reddit");
   if (config.sources.news.enabled) sourcesUsed.push("news");
+  if (config.sources.coingecko) sourcesUsed.push("coingecko");
 
   try {
     // Step 1: Generate or use provided keywords
     logger.progress("[1/4] Generating keywords...");
     const keywordsStart = Date.now();
 
-    let keywords: string[];
-    if (options.keywords && options.keywords.length > 0) {
-      // CLI override takes priority
-      keywords = options.keywords;
-      logger.progress(`  Using CLI keywords: ${keywords.join(", ")}`);
-      logger.logKeywordGeneration(keywords, "CLI override");
-    } else if (config.output.keywords.filter(k => k.trim()).length > 0) {
-      // Randomly pick from config pool (skip empty entries)
-      const pool = config.output.keywords.filter(k => k.trim());
-      const count = Math.min(config.output.keywordsPerRun, pool.length);
-      keywords = [...pool].sort(() => Math.random() - 0.5).slice(0, count);
-      logger.progress(`  Pool pick: ${keywords.join(", ")}`);
-      logger.logKeywordGeneration(keywords, "Pool pick from config");
-    } else {
-      // AI-generated keywords
-      keywords = await generateKeywords(businessData, logger);
-    }
+    const keywords = await resolveKeywords(businessData, options.keywords, logger);
 
     const keywordsTime = ((Date.now() - keywordsStart) / 1000).toFixed(1);
     logger.progress(`  done (${keywords.length} keywords, ${keywordsTime}s)`);
+    runLog.step("keywords", keywords.length > 0 ? "ok" : "empty", { count: keywords.length, keywords }, Date.now() - keywordsStart);
 
     // Step 2: Analyze trends
     logger.progress("[2/4] Analyzing trends...");
@@ -117,8 +139,16 @@ export async function runPipeline(
       trendsData.xcom.length,
       trendsData.reddit.length,
       trendsData.news.length,
+      trendsData.coingecko.length,
     ].join(", ");
     logger.progress(`  done (${trendCounts}, ${trendsTime}s)`);
+    runLog.step("trends", "ok", {
+      google: trendsData.google.length,
+      xcom: trendsData.xcom.length,
+      reddit: trendsData.reddit.length,
+      news: trendsData.news.length,
+      coingecko: trendsData.coingecko.length,
+    }, Date.now() - trendsStart);
 
     // Step 3: Generate post ideas (pass recent posts so AI avoids repeating topics)
     logger.progress("[3/4] Generating post ideas...");
@@ -128,6 +158,7 @@ export async function runPipeline(
     const postIdeas = await generatePostIdeas(businessData, trendsData, logger, recentPosts);
     const ideasTime = ((Date.now() - ideasStart) / 1000).toFixed(1);
     logger.progress(`  done (${postIdeas.length} ideas, ${ideasTime}s)`);
+    runLog.step("ideas", postIdeas.length > 0 ? "ok" : "empty", { count: postIdeas.length }, Date.now() - ideasStart);
 
     let content: GeneratedContent[] = [];
 
@@ -137,36 +168,39 @@ export async function runPipeline(
       const contentStart = Date.now();
 
       const ideasToGenerate = postIdeas.slice(0, config.output.maxContentPerIdea);
-      content = await generatePlatformContent(businessData, ideasToGenerate, platforms);
+      content = await generatePlatformContent(businessData, ideasToGenerate, platforms, logger);
 
       const contentTime = ((Date.now() - contentStart) / 1000).toFixed(1);
       logger.progress(`  done (${content.length} pieces, ${contentTime}s)`);
+      runLog.step("content", content.length > 0 ? "ok" : "empty", {
+        count: content.length,
+        platforms: content.map(c => c.platform),
+      }, Date.now() - contentStart);
+    } else {
+      runLog.step("content", "skipped", { reason: "--skip-content" });
     }
 
     // Step 5: Save current post + optional image (50/50 roll)
     let currentPost: CurrentPost | null = null;
     if (content.length > 0) {
       logger.progress("[5/5] Saving current post (image roll)...");
-      // Prefer twitter post for X.com image sizing; fall back to first available
-      const twitterPost = content.find(c => c.platform === "twitter") || content[0];
+      const imageStart = Date.now();
+      // Prefer twitter post (or thread) for X.com image sizing; fall back to first available
+      const twitterPost = content.find(c => c.platform === "twitter" || c.platform === "twitter_thread") || content[0];
       currentPost = await saveCurrentPost(twitterPost.platform, twitterPost.text, twitterPost.idea, options.forceImage);
       const imageStatus = currentPost.imagePath ? `image saved` : `no image this run`;
       logger.progress(`  done (${imageStatus})`);
-      logger.log("IMAGE_GENERATION", {
-        generated: !!currentPost.imagePath,
+      runLog.step("image", currentPost.imagePath ? "ok" : "skipped", {
         imagePath: currentPost.imagePath,
         platform: currentPost.platform,
-      });
+      }, Date.now() - imageStart);
     }
 
     const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
     logger.progress(`Total: ${totalTime}s`);
 
-    // Save log to file if enabled
     logger.logCacheInfo(false, (Date.now() - startTime) / 1000);
-    if (config.output.logToFile) {
-      await logger.saveToFile();
-    }
+    runLog.step("pipeline", "ok", { contentPieces: content.length }, Date.now() - startTime);
 
     return {
       status: "success",
@@ -182,6 +216,7 @@ export async function runPipeline(
       content,
       currentPost,
       meta: {
+        runId: runLog.runId,
         timestamp: new Date().toISOString(),
         processingTimeMs: Date.now() - startTime,
         sourcesUsed,
@@ -193,6 +228,7 @@ export async function runPipeline(
   } catch (error: any) {
     logger.logError("pipeline", error);
     logger.progress(`Error: ${error.message}`);
+    runLog.step("pipeline", "error", { error: error.message }, Date.now() - startTime);
 
     return {
       status: "error",
@@ -203,11 +239,12 @@ export async function runPipeline(
         industry: businessData.industry,
       },
       keywords: [],
-      trends: { google: [], xcom: [], reddit: [], news: [] },
+      trends: { google: [], xcom: [], reddit: [], news: [], coingecko: [] },
       postIdeas: [],
       content: [],
       currentPost: null,
       meta: {
+        runId: runLog.runId,
         timestamp: new Date().toISOString(),
         processingTimeMs: Date.now() - startTime,
         sourcesUsed,
@@ -0,0 +1,282 @@
+import { copyFile, mkdir } from "fs/promises";
+import path from "path";
+import { config } from "../config";
+import { PipelineResult } from "./pipeline";
+import {
+  enqueuePost,
+  getQueueItem,
+  listQueue,
+  updateQueueItem,
+  getDueQueueItems,
+  getPostCountLast24h,
+  idempotencyKey,
+  QueueItem,
+  QueueStatus,
+  QUEUE_STATUSES,
+} from "./x-db";
+import { postTweet, postThread } from "./x-poster";
+import { splitThread } from "./content";
+import { postToFacebook } from "./fb-poster";
+import { postToInstagram } from "./ig-poster";
+import { profilePath } from "./profile";
+
+// current_post/ is wiped every run, so queued images get their own copy
+const QUEUE_MEDIA_DIR = "queue_media";
+
+interface PlatformPublisher {
+  enabled: () => boolean;
+  postsLast24h: () => number;
+  cap: () => number;
+  publish: (text: string, imagePath: string | null, strategy?: string, sourceUrl?: string | null) => Promise<{ success: boolean; postId?: string; tweetId?: string; error?: string; dryRun?: boolean; duplicate?: boolean }>;
+  // Ledger key of the (first) post publish writes — the same key the poster passes to beginPostAttempt
+  ledgerKey: (text: string) => string;
+}
+
+const PUBLISHERS: Record<string, PlatformPublisher> = {
+  twitter: {
+    enabled: () => config.x.enabled,
+    postsLast24h: () => getPostCountLast24h("twitter"),
+    cap: () => config.x.postsPerDay,
+    publish: postTweet,
+    ledgerKey: text => idempotencyKey("twitter", text),
+  },
+  twitter_thread: {
+    enabled: () => config.x.enabled,
+    postsLast24h: () => getPostCountLast24h("twitter"),
+    cap: () => config.x.postsPerDay,
+    publish: async (text, imagePath, strategy, sourceUrl) => {
+      const result = await postThread(splitThread(text), imagePath, strategy, sourceUrl);
+      return { ...result, tweetId: result.tweetIds[0] };
+    },
+    ledgerKey: text => idempotencyKey("twitter_thread", splitThread(text).join("\n---\n"), 1),
+  },
+  facebook: {
+    enabled: () => config.facebook.enabled,
+    postsLast24h: () => getPostCountLast24h("facebook"),
+    cap: () => config.facebook.postsPerDay,
+    publish: postToFacebook,
+    ledgerKey: text => idempotencyKey("facebook", text),
+  },
+  instagram: {
+    enabled: () => config.instagram.enabled,
+    postsLast24h: () => getPostCountLast24h("instagram"),
+    cap: () => config.instagram.postsPerDay,
+    publish: postToInstagram,
+    ledgerKey: text => idempotencyKey("instagram", text),
+  },
+};
+
+// Pushes every generated content piece into the queue as "pending"
+export async function enqueuePipelineResult(result: PipelineResult): Promise<number[]> {
+  const sourceImage = result.currentPost?.imagePath ?? null;
+  const ids: number[] = [];
+
+  for (const content of result.content) {
+    const id = enqueuePost({
+      platform: content.platform,
+      text: content.text,
+      image_path: null,
+      idea: content.idea,
+      strategy: content.strategy,
+      source_url: content.sourceUrl ?? null,
+    });
+
+    if (sourceImage) {
+      const mediaDir = profilePath(QUEUE_MEDIA_DIR);
+      await mkdir(mediaDir, { recursive: true });
+      const imagePath = path.join(mediaDir, `${id}${path.extname(sourceImage)}`);
+      await copyFile(sourceImage, imagePath);
+      updateQueueItem(id, { image_path: imagePath });
+    }
+
+    ids.push(id);
+  }
+
+  return ids;
+}
+
+export interface PublishOutcome {
+  status: "posted" | "dry_run" | "skipped" | "error";
+  postId?: string | null;
+  reason?: string;
+}
+
+// Publishes text to one platform, respecting its enabled flag and daily cap.
+// label names the post in console output (e.g. "#12" for a queue item); sourceUrl is the
+// article the post cites (X posts it as a reply, the other platforms only record it).
+export async function publishToPlatform(
+  platform: string,
+  text: string,
+  imagePath: string | null,
+  strategy?: string,
+  label: string = platform,
+  sourceUrl: string | null = null
+): Promise<PublishOutcome> {
+  const publisher = PUBLISHERS[platform];
+  if (!publisher) {
+    console.log(`[SKIP] ${label}: no publisher for platform "${platform}"`);
+    return { status: "skipped", reason: `no publisher for platform "${platform}"` };
+  }
+
+  if (!publisher.enabled()) {
+    console.log(`[SKIP] ${label}: ${platform} is disabled in config.ts`);
+    return { status: "skipped", reason: `${platform} is disabled in config.ts` };
+  }
+
+  // Re-checked per post — earlier posts in this run count towards the cap
+  const count = publisher.postsLast24h();
+  if (count >= publisher.cap()) {
+    console.log(`[SKIP] ${label}: ${platform} daily cap reached (${count}/${publisher.cap()})`);
+    return { status: "skipped", reason: `${platform} daily cap reached (${count}/${publisher.cap()})` };
+  }
+
+  console.log(`\nPublishing ${label} (${platform}): ${text.substring(0, 80)}...`);
+  const result = await publisher.publish(text, imagePath, strategy, sourceUrl);
+
+  if (result.success && result.dryRun) return { status: "dry_run" };
+  // A duplicate was published by an earlier run — same outcome, nothing new went out
+  if (result.success && result.duplicate) {
+    return { status: "posted", postId: result.tweetId || result.postId || null, reason: "already published" };
+  }
+  if (result.success) return { status: "posted", postId: result.tweetId || result.postId || null };
+  return { status: "error", reason: result.error || "Unknown error" };
+}
+
+// The ledger key publishToPlatform will post text under, so a caller can find the post later
+export function publishKey(platform: string, text: string): string | null {
+  return PUBLISHERS[platform]?.ledgerKey(text) ?? null;
+}
+
+// Publishes one queue item and records the outcome on it
+export async function publishQueueItem(item: QueueItem): Promise<PublishOutcome> {
+  const outcome = await publishToPlatform(item.platform, item.text, item.image_path, item.strategy ?? undefined, `#${item.id}`, item.source_url);
+
+  if (outcome.status === "skipped") {
+    console.log(`[SKIP] #${item.id} stays queued`);
+  } else if (outcome.status === "dry_run") {
+    console.log(`[DRY RUN] #${item.id} left in queue as "${item.status}"`);
+  } else if (outcome.status === "posted") {
+    updateQueueItem(item.id, { status: "posted", post_id: outcome.postId ?? null, last_error: null });
+  } else {
+    // Stays approved/scheduled so the next publish-due run retries it
+    updateQueueItem(item.id, { last_error: outcome.reason ?? "Unknown error" });
+  }
+  return outcome;
+}
+
+// Publishes every due item, respecting enabled flags and daily caps per platform
+export async function publishDue(): Promise<{ posted: number; skipped: number; errors: string[] }> {
+  const due = getDueQueueItems();
+  const errors: string[] = [];
+  let posted = 0;
+  let skipped = 0;
+
+  console.log(`Queue: ${due.length} item(s) due`);
+
+  for (const item of due) {
+    const outcome = await publishQueueItem(item);
+    if (outcome.status === "posted") posted++;
+    else if (outcome.status === "skipped") skipped++;
+    else if (outcome.status === "error") errors.push(`#${item.id}: ${outcome.reason}`);
+  }
+
+  return { posted, skipped, errors };
+}
+
+function parseTime(value: string | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid time "${value}" — use ISO 8601, e.g. 2026-03-06T18:00:00Z`);
+  }
+  return date.toISOString();
+}
+
+function printItem(item: QueueItem): void {
+  const when = item.scheduled_at ? ` @ ${item.scheduled_at}` : "";
+  const error = item.last_error ? ` [last error: ${item.last_error}]` : "";
+  console.log(`#${item.id}  ${item.status.padEnd(9)}  ${item.platform.padEnd(9)}${when}${error}`);
+  console.log(`    ${item.text.replace(/\n/g, " ").substring(0, 120)}${item.text.length > 120 ? "..." : ""}`);
+  if (item.image_path) console.log(`    image: ${item.image_path}`);
+  if (item.source_url) console.log(`    source: ${item.source_url}`);
+}
+
+function requireItem(idArg: string | undefined): QueueItem {
+  const id = Number(idArg);
+  const item = Number.isInteger(id) ? getQueueItem(id) : null;
+  if (!item) {
+    throw new Error(`Queue item not found: ${idArg ?? "(missing id)"}`);
+  }
+  return item;
+}
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+// queue list [status] | show <id> | edit <id> [--text ..] [--at ..] | approve <id> [--at ..] | reject <id>
+export function runQueueCommand(args: string[]): number {
+  const [action, idArg] = args;
+
+  try {
+    switch (action) {
+      case "list": {
+        const status = idArg as QueueStatus | undefined;
+        if (status && !QUEUE_STATUSES.includes(status)) {
+          throw new Error(`Unknown status "${status}" — expected ${QUEUE_STATUSES.join(", ")}`);
+        }
+        const items = listQueue(status);
+        if (items.length === 0) console.log("Queue is empty");
+        items.forEach(printItem);
+        return 0;
+      }
+      case "show": {
+        const item = requireItem(idArg);
+        printItem(item);
+        console.log(`\n${item.text}`);
+        return 0;
+      }
+      case "edit": {
+        const item = requireItem(idArg);
+        if (item.status === "posted") throw new Error(`#${item.id} is already posted`);
+        const text = getOption(args, "--text");
+        const at = getOption(args, "--at");
+        if (text === undefined && at === undefined) throw new Error("Nothing to edit — pass --text and/or --at");
+        const changes: Parameters<typeof updateQueueItem>[1] = {};
+        if (text !== undefined) changes.text = text;
+        if (at !== undefined) {
+          changes.scheduled_at = parseTime(at);
+          // Moving the time of an approved item turns it into a scheduled one
+          if (item.status === "approved") changes.status = "scheduled";
+        }
+        updateQueueItem(item.id, changes);
+        printItem(getQueueItem(item.id)!);
+        return 0;
+      }
+      case "approve": {
+        const item = requireItem(idArg);
+        if (item.status === "posted") throw new Error(`#${item.id} is already posted`);
+        const scheduledAt = parseTime(getOption(args, "--at")) ?? item.scheduled_at;
+        updateQueueItem(item.id, {
+          status: scheduledAt ? "scheduled" : "approved",
+          scheduled_at: scheduledAt,
+        });
+        printItem(getQueueItem(item.id)!);
+        return 0;
+      }
+      case "reject": {
+        const item = requireItem(idArg);
+        if (item.status === "posted") throw new Error(`#${item.id} is already posted`);
+        updateQueueItem(item.id, { status: "rejected" });
+        printItem(getQueueItem(item.id)!);
+        return 0;
+      }
+      default:
+        throw new Error(`Unknown queue command: ${action ?? "(none)"} — expected list, show, edit, approve or reject`);
+    }
+  } catch (error: any) {
+    console.error(error.message);
+    return 1;
+  }
+}
@@ -0,0 +1,105 @@
+import path from "path";
+import * as userConfig from "../config";
+import type { ProfileOverrides } from "../config";
+
+// Named brand profiles. A profile overrides sections of the base config in place — every
+// module keeps importing the same `config` singleton — and moves the DB, logs and
+// working directories under profiles/<name>/ so caps and duplicate checks never mix brands.
+
+// Platform sections hold another brand's accounts: a profile that doesn't define one gets the
+// platform disabled, and a profile that does never inherits the base credentials
+const PLATFORM_SECTIONS = ["x", "facebook", "instagram", "twitterApiIo"] as const;
+const CREDENTIAL_FIELDS = [
+  "consumerKey", "consumerSecret", "accessToken", "accessTokenSecret",
+  "pageId", "pageAccessToken", "igUserId", "apiKey", "username",
+];
+
+// The cache holds raw source results, which are the same for every brand
+const SHARED_SECTIONS = ["cache"];
+
+let activeProfile: string | null = null;
+
+function getProfiles(): Record<string, ProfileOverrides> {
+  // config.ts files created before profiles existed don't export them
+  return (userConfig as { profiles?: Record<string, ProfileOverrides> }).profiles || {};
+}
+
+export function listProfiles(): string[] {
+  return Object.keys(getProfiles());
+}
+
+export function getActiveProfile(): string | null {
+  return activeProfile;
+}
+
+// Resolves a runtime path for the active profile — the working directory when none is active
+export function profilePath(...parts: string[]): string {
+  const base = activeProfile ? path.join(process.cwd(), "profiles", activeProfile) : process.cwd();
+  return path.join(base, ...parts);
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Objects merge recursively, arrays and scalars are replaced
+function mergeInto(target: Record<string, any>, overrides: Record<string, any>): void {
+  for (const [key, value] of Object.entries(overrides)) {
+    if (isPlainObject(value) && isPlainObject(target[key])) {
+      mergeInto(target[key], value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+// Must run before anything opens the DB or writes logs
+export function applyProfile(name: string): void {
+  const profiles = getProfiles();
+  const overrides = profiles[name];
+  if (!overrides) {
+    const available = Object.keys(profiles);
+    throw new Error(`Unknown profile "${name}" — ${available.length > 0 ? `available: ${available.join(", ")}` : "no profiles defined in config.ts"}`);
+  }
+  if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+    throw new Error(`Invalid profile name "${name}" — use letters, numbers, - and _`);
+  }
+
+  const config = userConfig.config as Record<string, any>;
+
+  for (const section of PLATFORM_SECTIONS) {
+    const target = config[section];
+    if (!target) continue;
+    target.enabled = false;
+    for (const field of CREDENTIAL_FIELDS) {
+      if (typeof target[field] === "string") target[field] = "";
+    }
+  }
+
+  for (const [section, value] of Object.entries(overrides)) {
+    if (SHARED_SECTIONS.includes(section)) {
+      console.error(`[PROFILE] Ignoring "${section}" in profile "${name}" — it is shared by all profiles`);
+      continue;
+    }
+    if (isPlainObject(value) && isPlainObject(config[section])) {
+      mergeInto(config[section], value);
+    } else {
+      config[section] = value;
+    }
+  }
+
+  activeProfile = name;
+}
+
+// Strips --profile <name> from argv and applies it. Returns the remaining args.
+export function applyProfileFromArgs(args: string[]): string[] {
+  const index = args.indexOf("--profile");
+  if (index === -1) return args;
+
+  const name = args[index + 1];
+  if (!name || name.startsWith("--")) {
+    throw new Error("--profile needs a profile name");
+  }
+  applyProfile(name);
+  return [...args.slice(0, index), ...args.slice(index + 2)];
+}
@@ -0,0 +1,48 @@
+import type { LLMProvider } from "./registry";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// Anthropic Messages API adapter
+export class AnthropicProvider implements LLMProvider {
+  name = "Anthropic";
+
+  constructor(
+    private baseUrl: string,
+    private apiKey: string,
+    private model: string,
+  ) {}
+
+  async complete(prompt: string, maxTokens: number): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: maxTokens,
+        messages: [{ role: "user", content: prompt }],
+      }),
+      // @ts-ignore — Bun-specific TLS option (fixes cert errors on Linux)
+      tls: { rejectUnauthorized: false },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${this.name} API error: ${response.status} - ${error}`);
+    }
+
+    const data: any = await response.json();
+    // Response content is a list of blocks — keep only the text ones
+    const text = (data.content || [])
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("");
+    if (!text) {
+      throw new Error(`${this.name} returned no text content`);
+    }
+    return text;
+  }
+}
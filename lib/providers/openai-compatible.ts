@@ -0,0 +1,43 @@
+import type { LLMProvider } from "./registry";
+
+// Chat Completions adapter — DeepSeek, OpenAI and local servers (llama.cpp, Ollama) share this format
+export class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    public name: string,
+    private baseUrl: string,
+    private apiKey: string,
+    private model: string,
+  ) {}
+
+  async complete(prompt: string, maxTokens: number): Promise<string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    // Local servers usually run without auth
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        max_tokens: maxTokens,
+      }),
+      // @ts-ignore — Bun-specific TLS option (fixes cert errors on Linux)
+      tls: { rejectUnauthorized: false },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${this.name} API error: ${response.status} - ${error}`);
+    }
+
+    const data: any = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error(`${this.name} returned no message content`);
+    }
+    return content;
+  }
+}
@@ -0,0 +1,56 @@
+import { config } from "../../config";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+import { AnthropicProvider } from "./anthropic";
+
+export type ProviderName = "deepseek" | "anthropic" | "openai" | "local";
+
+export interface LLMProvider {
+  name: string;
+  complete(prompt: string, maxTokens: number): Promise<string>;
+}
+
+// Each entry builds its adapter from config.ai — baseUrl overrides the default endpoint
+const PROVIDERS: Record<ProviderName, () => LLMProvider> = {
+  deepseek: () => new OpenAICompatibleProvider(
+    "DeepSeek",
+    config.ai.baseUrl || "https://api.deepseek.com/v1",
+    config.ai.apiKey,
+    config.ai.model,
+  ),
+  openai: () => new OpenAICompatibleProvider(
+    "OpenAI",
+    config.ai.baseUrl || "https://api.openai.com/v1",
+    config.ai.apiKey,
+    config.ai.model,
+  ),
+  // llama.cpp server defaults to :8080, Ollama to :11434/v1 — both speak the OpenAI format
+  local: () => new OpenAICompatibleProvider(
+    "Local LLM",
+    config.ai.baseUrl || "http://localhost:8080/v1",
+    config.ai.apiKey,
+    config.ai.model,
+  ),
+  anthropic: () => new AnthropicProvider(
+    config.ai.baseUrl || "https://api.anthropic.com/v1",
+    config.ai.apiKey,
+    config.ai.model,
+  ),
+};
+
+let provider: LLMProvider | null = null;
+
+export function getProvider(): LLMProvider {
+  if (!provider) {
+    const name = config.ai.provider as ProviderName;
+    const factory = PROVIDERS[name];
+    if (!factory) {
+      throw new Error(`Unknown AI provider "${name}" in config.ai.provider (expected: ${Object.keys(PROVIDERS).join(", ")})`);
+    }
+    provider = factory();
+  }
+  return provider;
+}
+
+export function resetProvider(): void {
+  provider = null;
+}
@@ -0,0 +1,120 @@
+import { getSecretValues } from "./secrets";
+
+// Masks credentials before anything reaches a log file or stderr: the configured secrets
+// themselves, bearer tokens, OAuth 1.0a header parameters, key/token query parameters in URLs
+// echoed by error messages, and password/secret fields in JSON bodies.
+
+const MASK = "[REDACTED]";
+
+// Short values (numeric IDs, "local") would mask unrelated text
+const MIN_SECRET_LENGTH = 8;
+
+// Names whose value is a credential wherever they appear as key: value / key=value
+const SECRET_NAMES = "x-api-key|api[_-]?key|access[_-]?token(?:[_-]?secret)?|refresh[_-]?token|client[_-]?secret|consumer[_-]?secret|password|passwd";
+
+const PATTERNS: { regex: RegExp; replacement: string }[] = [
+  // Authorization: Bearer sk-...
+  { regex: /\bBearer\s+[A-Za-z0-9\-._~+/%]+=*/gi, replacement: `Bearer ${MASK}` },
+  // Authorization: OAuth oauth_consumer_key="...", oauth_token="...", oauth_signature="..." (X OAuth 1.0a)
+  { regex: /\b(oauth_(?:consumer_key|token|token_secret|signature|verifier)=)("?)[^"&,\s]+/gi, replacement: `$1$2${MASK}` },
+  // https://newsapi.org/v2/...&apiKey=abc, graph.facebook.com/...?access_token=abc
+  { regex: /([?&](?:api[_-]?key|access_token|token|client_secret|key)=)[^&\s"'<>]+/gi, replacement: `$1${MASK}` },
+  // {\"password\":\"a b\"} — JSON serialised inside another JSON string
+  { regex: new RegExp(`((?:${SECRET_NAMES})\\\\["']\\s*:\\s*)\\\\(["'])(?:(?!\\\\\\2).)*\\\\\\2`, "gi"), replacement: `$1\\$2${MASK}\\$2` },
+  // "password": "a b", 'api_key': 'abc' — quoted values may hold spaces and escaped quotes
+  { regex: new RegExp(`((?:${SECRET_NAMES})["']?\\s*[:=]\\s*)(["'])(?:\\\\.|(?!\\2)[^\\\\])*\\2`, "gi"), replacement: `$1$2${MASK}$2` },
+  // X-API-Key: abc, client_secret=abc
+  { regex: new RegExp(`((?:${SECRET_NAMES})["']?\\s*[:=]\\s*)(?!\\\\?["'])[^"'\\s,&}]+`, "gi"), replacement: `$1${MASK}` },
+];
+
+// Object keys whose string values are always credentials (request headers, config dumps)
+const SECRET_KEY = /^(authorization|x-api-key|api[_-]?key|access[_-]?token|(?:refresh|oauth)[_-]?token|client[_-]?secret|\w*secret|password|passwd)$/i;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function redactText(text: string): string {
+  let result = text;
+
+  // Longest first, so a secret that contains another is masked whole
+  const secrets = getSecretValues()
+    .filter(secret => secret.length >= MIN_SECRET_LENGTH)
+    .sort((a, b) => b.length - a.length);
+  for (const secret of secrets) {
+    result = result.replace(new RegExp(escapeRegex(secret), "g"), MASK);
+  }
+
+  for (const { regex, replacement } of PATTERNS) {
+    result = result.replace(regex, replacement);
+  }
+  return result;
+}
+
+// Deep copy with every string redacted — the original object is left untouched
+export function redact<T>(value: T, seen: WeakSet<object> = new WeakSet()): T {
+  if (typeof value === "string") {
+    return redactText(value) as T;
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return "[Circular]" as T;
+  }
+  // seen holds the objects being copied above this one, so shared references are copied twice
+  seen.add(value);
+  try {
+    return redactObject(value, seen) as T;
+  } finally {
+    seen.delete(value);
+  }
+}
+
+function redactObject(value: object, seen: WeakSet<object>): unknown {
+  if (value instanceof Error) {
+    return redactError(value, seen);
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactNested(item, seen));
+  }
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = redactField(key, item, seen);
+  }
+  return copy;
+}
+
+function redactField(key: string, item: unknown, seen: WeakSet<object>): unknown {
+  return typeof item === "string" && item !== "" && SECRET_KEY.test(key) ? MASK : redactNested(item, seen);
+}
+
+// Client objects hanging off errors (ClientRequest, IncomingMessage, sockets) are named, not copied
+function redactNested(item: unknown, seen: WeakSet<object>): unknown {
+  if (typeof item !== "object" || item === null || isPlainData(item)) return redact(item, seen);
+  return `[${item.constructor?.name ?? "Object"}]`;
+}
+
+// Same class, so instanceof checks and the class's own getters still work. name and message
+// are made enumerable so the error survives JSON.stringify in the logs.
+function redactError(error: Error, seen: WeakSet<object>): Error {
+  const copy: Error = Object.create(Object.getPrototypeOf(error));
+  for (const key of Object.getOwnPropertyNames(error)) {
+    const descriptor = Object.getOwnPropertyDescriptor(error, key)!;
+    if (!("value" in descriptor)) continue;
+    const value = key === "stack" ? redactText(String(descriptor.value)) : redactField(key, descriptor.value, seen);
+    Object.defineProperty(copy, key, { value, enumerable: descriptor.enumerable, writable: true, configurable: true });
+  }
+  Object.defineProperty(copy, "name", { value: error.name, enumerable: true, writable: true, configurable: true });
+  Object.defineProperty(copy, "message", { value: redactText(error.message), enumerable: true, writable: true, configurable: true });
+  return copy;
+}
+
+function isPlainData(value: object): boolean {
+  if (Array.isArray(value) || value instanceof Error || value instanceof Date) return true;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
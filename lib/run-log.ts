@@ -0,0 +1,118 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { config } from "../config";
+import { profilePath, getActiveProfile } from "./profile";
+import { redact } from "./redact";
+
+// Structured run log: one JSON object per line in logs/runs/runs-YYYY-MM-DD.jsonl.
+// Every line carries the run ID, so a whole run (pipeline + posting) can be pulled out with
+//   grep '"runId":"20260306T0900-a1b2"' logs/runs/*.jsonl
+// and a week of runs loads straight into jq, DuckDB or a spreadsheet.
+
+export type StepStatus = "ok" | "empty" | "skipped" | "error";
+
+export interface RunLogLine {
+  ts: string;
+  runId: string;
+  profile: string | null;
+  source: string;
+  step: string;
+  status: StepStatus;
+  durationMs?: number;
+  data?: unknown;
+}
+
+let prunedThisProcess = false;
+
+export function createRunId(): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").slice(0, 13);
+  return `${stamp}-${randomBytes(2).toString("hex")}`;
+}
+
+function runLogDir(): string {
+  return profilePath("logs", "runs");
+}
+
+function isEnabled(): boolean {
+  return config.logging?.runLog ?? true;
+}
+
+// Today's file, rolled over to runs-DATE.1.jsonl, .2, ... once it passes maxFileSizeMb
+function currentFile(dir: string): string {
+  const date = new Date().toISOString().slice(0, 10);
+  const maxBytes = (config.logging?.maxFileSizeMb ?? 20) * 1024 * 1024;
+
+  for (let part = 0; ; part++) {
+    const file = path.join(dir, part === 0 ? `runs-${date}.jsonl` : `runs-${date}.${part}.jsonl`);
+    if (!fs.existsSync(file) || fs.statSync(file).size < maxBytes) return file;
+  }
+}
+
+// Deletes run logs older than retentionDays — once per process, on the first write
+function pruneOldLogs(dir: string): void {
+  prunedThisProcess = true;
+  const retentionDays = config.logging?.retentionDays ?? 30;
+  if (retentionDays <= 0) return;
+
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  for (const file of fs.readdirSync(dir)) {
+    const match = file.match(/^runs-(\d{4}-\d{2}-\d{2})(?:\.\d+)?\.jsonl$/);
+    if (match && match[1] < cutoff) {
+      fs.rmSync(path.join(dir, file), { force: true });
+    }
+  }
+}
+
+export class RunLog {
+  readonly runId: string;
+  private source: string;
+
+  constructor(source: string, runId: string = createRunId()) {
+    this.source = source;
+    this.runId = runId;
+  }
+
+  step(step: string, status: StepStatus, data?: unknown, durationMs?: number): void {
+    if (!isEnabled()) return;
+
+    const line: RunLogLine = {
+      ts: new Date().toISOString(),
+      runId: this.runId,
+      profile: getActiveProfile(),
+      source: this.source,
+      step,
+      status,
+    };
+    if (durationMs !== undefined) line.durationMs = Math.round(durationMs);
+    if (data !== undefined) line.data = redact(data);
+
+    // A broken log directory must never take a run down with it
+    try {
+      const dir = runLogDir();
+      fs.mkdirSync(dir, { recursive: true });
+      if (!prunedThisProcess) pruneOldLogs(dir);
+      fs.appendFileSync(currentFile(dir), JSON.stringify(line) + "\n", "utf-8");
+    } catch (error: any) {
+      console.error(`[RUN LOG] Failed to write: ${error.message}`);
+    }
+  }
+
+  // Times fn and logs it as one step. Errors are logged with status "error" and re-thrown.
+  async timed<T>(
+    step: string,
+    fn: () => Promise<T>,
+    describe: (result: T) => { status?: StepStatus; data?: unknown } = () => ({})
+  ): Promise<T> {
+    const start = Date.now();
+    try {
+      const result = await fn();
+      const { status = "ok", data } = describe(result);
+      this.step(step, status, data, Date.now() - start);
+      return result;
+    } catch (error: any) {
+      this.step(step, "error", { error: error.message || String(error) }, Date.now() - start);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config";
+import { getActiveProfile } from "./profile";
+
+// Layered credential loading, lowest to highest priority:
+//   defaults → config.ts → .env → secrets.json → TRENDGEN_* environment variables
+// so keys can live outside the working tree under cron or OpenClaw.
+
+export type SecretLayer = "default" | "config.ts" | ".env" | "secrets.json" | "env";
+
+export interface SecretSource {
+  path: string;
+  layer: SecretLayer;
+  // Variable name or file key the value came from
+  origin?: string;
+  set: boolean;
+}
+
+// Platform credentials belong to one brand — see PLATFORM_SECTIONS in profile.ts
+const SECRET_PATHS = [
+  "ai.apiKey",
+  "image.runwareApiKey",
+  "sources.reddit.clientId",
+  "sources.reddit.clientSecret",
+  "sources.news.newsApiKey",
+  "x.consumerKey",
+  "x.consumerSecret",
+  "x.accessToken",
+  "x.accessTokenSecret",
+  "facebook.pageId",
+  "facebook.pageAccessToken",
+  "instagram.igUserId",
+  "instagram.pageId",
+  "instagram.pageAccessToken",
+  "twitterApiIo.apiKey",
+  "server.token",
+];
+const BRAND_SECTIONS = ["x", "facebook", "instagram", "twitterApiIo"];
+
+let sources: SecretSource[] = [];
+
+// ai.apiKey → AI_API_KEY, sources.reddit.clientSecret → REDDIT_CLIENT_SECRET
+export function secretEnvName(secretPath: string): string {
+  return secretPath
+    .replace(/^sources\./, "")
+    .split(".")
+    .map(part => part.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase())
+    .join("_");
+}
+
+function isBrandSecret(secretPath: string): boolean {
+  return BRAND_SECTIONS.includes(secretPath.split(".")[0]);
+}
+
+// Variables to try, most specific first. With a profile active, brand credentials only come
+// from TRENDGEN_<PROFILE>_* so the main brand's keys never end up on another brand's run.
+function envCandidates(secretPath: string, profile: string | null): string[] {
+  const name = secretEnvName(secretPath);
+  const profilePrefix = profile ? `TRENDGEN_${profile.toUpperCase().replace(/-/g, "_")}_` : null;
+  if (profilePrefix && isBrandSecret(secretPath)) return [profilePrefix + name];
+  return profilePrefix ? [profilePrefix + name, `TRENDGEN_${name}`] : [`TRENDGEN_${name}`];
+}
+
+function getPath(target: Record<string, any>, secretPath: string): unknown {
+  return secretPath.split(".").reduce<any>((node, key) => (node == null ? undefined : node[key]), target);
+}
+
+function setPath(target: Record<string, any>, secretPath: string, value: string): void {
+  const keys = secretPath.split(".");
+  const last = keys.pop()!;
+  let node = target;
+  for (const key of keys) {
+    if (typeof node[key] !== "object" || node[key] === null) node[key] = {};
+    node = node[key];
+  }
+  node[last] = value;
+}
+
+function parseDotenv(filePath: string): Record<string, string> {
+  if (!fs.existsSync(filePath)) return {};
+  const values: Record<string, string> = {};
+  for (const line of fs.readFileSync(filePath, "utf-8").split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=(.*)$/);
+    if (!match) continue;
+    values[match[1]] = parseDotenvValue(match[2]);
+  }
+  return values;
+}
+
+// KEY="a b" # note → a b; KEY=abc # note → abc. A quoted value ends at its closing quote,
+// an unquoted one at a " #" comment — stray whitespace or quotes would break the credential.
+function parseDotenvValue(raw: string): string {
+  const value = raw.trim();
+  const quote = value[0];
+  if (quote === '"' || quote === "'") {
+    const end = value.indexOf(quote, 1);
+    if (end !== -1) return value.slice(1, end);
+  }
+  return value.replace(/(^|\s)#.*$/, "").trim();
+}
+
+function readSecretsFile(filePath: string): Record<string, any> {
+  if (!fs.existsSync(filePath)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Could not parse ${filePath}: ${error.message}`);
+  }
+}
+
+// Call after applyProfile() and before validating the config
+export function applySecrets(): SecretSource[] {
+  const profile = getActiveProfile();
+  const target = config as Record<string, any>;
+  const dotenv = parseDotenv(path.join(process.cwd(), ".env"));
+  const secretsPath = process.env.TRENDGEN_SECRETS_FILE || path.join(process.cwd(), "secrets.json");
+  const secretsFile = readSecretsFile(secretsPath);
+  // Top-level keys belong to the main brand, profiles.<name> to that profile
+  const profileSecrets = profile ? secretsFile.profiles?.[profile] || {} : {};
+  // Only named in the log when it isn't the default file
+  const secretsLabel = path.basename(secretsPath) === "secrets.json" ? "" : `${path.basename(secretsPath)}: `;
+
+  sources = SECRET_PATHS.map(secretPath => {
+    const current = getPath(target, secretPath);
+    let source: SecretSource = typeof current === "string" && current !== ""
+      ? { path: secretPath, layer: "config.ts", set: true }
+      : { path: secretPath, layer: "default", set: false };
+
+    const apply = (value: unknown, layer: SecretLayer, origin: string) => {
+      if (typeof value !== "string" || value === "") return;
+      setPath(target, secretPath, value);
+      source = { path: secretPath, layer, origin, set: true };
+    };
+
+    const candidates = envCandidates(secretPath, profile);
+
+    // Bun loads .env into process.env itself — a value matching the file counts as .env
+    const fromDotenv = candidates.find(name => dotenv[name]);
+    if (fromDotenv) apply(dotenv[fromDotenv], ".env", fromDotenv);
+
+    if (!profile || !isBrandSecret(secretPath)) {
+      apply(getPath(secretsFile, secretPath), "secrets.json", `${secretsLabel}${secretPath}`);
+    }
+    if (profile) {
+      apply(getPath(profileSecrets, secretPath), "secrets.json", `${secretsLabel}profiles.${profile}.${secretPath}`);
+    }
+
+    const fromEnv = candidates.find(name => process.env[name] && process.env[name] !== dotenv[name]);
+    if (fromEnv) apply(process.env[fromEnv], "env", fromEnv);
+
+    return source;
+  });
+
+  return sources;
+}
+
+// Every credential currently set — used by the log redaction
+export function getSecretValues(): string[] {
+  return SECRET_PATHS
+    .map(secretPath => getPath(config as Record<string, any>, secretPath))
+    .filter((value): value is string => typeof value === "string" && value !== "");
+}
+
+// One line per credential — values are never printed
+export function describeSecretSources(includeUnset: boolean = true): string[] {
+  return sources.filter(source => includeUnset || source.set).map(source => {
+    if (!source.set) return `${source.path.padEnd(28)} (not set)`;
+    const origin = source.origin ? ` ${source.origin}` : "";
+    return `${source.path.padEnd(28)} [redacted] ← ${source.layer}${origin}`;
+  });
+}
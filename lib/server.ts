@@ -0,0 +1,331 @@
+import { timingSafeEqual } from "crypto";
+import { config } from "../config";
+import { runPipeline, PipelineResult } from "./pipeline";
+import { enqueuePipelineResult, publishQueueItem, PublishOutcome } from "./post-queue";
+import { getQueueItem, listQueue, listPosts, QueueStatus, QUEUE_STATUSES, LedgerStatus, LEDGER_STATUSES } from "./x-db";
+import { selectStrategy, Strategy, STRATEGIES } from "./strategy-selector";
+import { createRunId } from "./run-log";
+import { getActiveProfile } from "./profile";
+
+// Local HTTP API over the pipeline and the post queue (bun run cli -- serve).
+// One process serves the profile it was started with; run a second server for another brand.
+//
+//   POST /runs                 start a pipeline run (runPipeline options in, PipelineResult out)
+//   GET  /runs                 recent runs, newest first
+//   GET  /runs/:id             one run — status plus its PipelineResult once finished
+//   GET  /posts                posting ledger without dry runs (?platform=twitter&status=published&dryRuns=1&limit=50)
+//   GET  /queue                queue items (?status=pending)
+//   POST /posts/:id/publish    publish approved/scheduled queue item :id now
+
+// The part of Bun.serve used here — Bun's type definitions aren't in tsconfig
+interface ServeOptions {
+  hostname: string;
+  port: number;
+  idleTimeout: number;
+  fetch: (req: Request) => Promise<Response>;
+}
+declare const Bun: { serve(options: ServeOptions): unknown };
+
+const PLATFORMS = ["twitter", "twitter_thread", "instagram", "facebook"];
+const MAX_RUN_HISTORY = 100;
+
+export interface RunRequest {
+  platforms?: string[];
+  strategy?: Strategy;
+  keywords?: string[];
+  skipContent?: boolean;
+  forceImage?: boolean;
+  // Push the generated posts into the approval queue (like tg --queue)
+  queue?: boolean;
+  // false: answer 202 straight away and poll GET /runs/:id
+  wait?: boolean;
+}
+
+export interface RunRecord {
+  runId: string;
+  status: "queued" | "running" | "success" | "error";
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  request: RunRequest;
+  queuedIds?: number[];
+  result: PipelineResult | null;
+  error?: string;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Bounds concurrent pipeline runs. Requests past the running slots wait in line;
+// once the line is full too, new runs are turned away with 429.
+class RunSlots {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private max: number, private maxQueued: number) {}
+
+  hasRoom(): boolean {
+    return this.active < this.max || this.waiting.length < this.maxQueued;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.active < this.max) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  // Hands the slot straight to the next waiting run
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
+
+const runs = new Map<string, RunRecord>();
+let slots: RunSlots;
+// Publishes go one at a time so each one sees the previous one in the daily cap
+let publishChain: Promise<unknown> = Promise.resolve();
+
+function json(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+function isAuthorized(req: Request): boolean {
+  const match = (req.headers.get("authorization") || "").match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(config.server.token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readBody(req: Request): Promise<Record<string, any>> {
+  const text = await req.text();
+  if (text.trim() === "") return {};
+  try {
+    const body = JSON.parse(text);
+    if (typeof body !== "object" || body === null || Array.isArray(body)) throw new Error();
+    return body;
+  } catch {
+    throw new HttpError(400, "Body must be a JSON object");
+  }
+}
+
+function stringList(body: Record<string, any>, key: string): string[] | undefined {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some(item => typeof item !== "string" || item.trim() === "")) {
+    throw new HttpError(400, `${key} must be an array of non-empty strings`);
+  }
+  return value.map((item: string) => item.trim());
+}
+
+function flag(body: Record<string, any>, key: string): boolean | undefined {
+  const value = body[key];
+  if (value !== undefined && typeof value !== "boolean") {
+    throw new HttpError(400, `${key} must be true or false`);
+  }
+  return value;
+}
+
+function parseRunRequest(body: Record<string, any>): RunRequest {
+  const platforms = stringList(body, "platforms")?.map(p => p.toLowerCase());
+  const unknown = platforms?.find(p => !PLATFORMS.includes(p));
+  if (unknown) {
+    throw new HttpError(400, `Unknown platform "${unknown}" — expected ${PLATFORMS.join(", ")}`);
+  }
+  if (body.strategy !== undefined && !STRATEGIES.includes(body.strategy)) {
+    throw new HttpError(400, `strategy must be one of ${STRATEGIES.join(", ")}`);
+  }
+
+  return {
+    platforms,
+    strategy: body.strategy,
+    keywords: stringList(body, "keywords"),
+    skipContent: flag(body, "skipContent"),
+    forceImage: flag(body, "forceImage"),
+    queue: flag(body, "queue"),
+    wait: flag(body, "wait"),
+  };
+}
+
+function remember(record: RunRecord): void {
+  runs.set(record.runId, record);
+  // Map keeps insertion order — drop the oldest finished runs first
+  for (const [runId, old] of runs) {
+    if (runs.size <= MAX_RUN_HISTORY) break;
+    if (old.status === "success" || old.status === "error") runs.delete(runId);
+  }
+}
+
+async function executeRun(record: RunRecord): Promise<void> {
+  await slots.acquire();
+  record.status = "running";
+  record.startedAt = new Date().toISOString();
+  console.error(`[SERVE] Run ${record.runId} started`);
+
+  try {
+    const { request } = record;
+    const platforms = request.platforms || [...config.output.platforms];
+    const choice = request.strategy ? null : selectStrategy(platforms);
+
+    const result = await runPipeline({
+      runId: record.runId,
+      platforms,
+      strategy: request.strategy || choice!.strategy,
+      strategyReason: choice ? choice.reason : "set via POST /runs",
+      keywords: request.keywords,
+      skipContent: request.skipContent,
+      forceImage: request.forceImage,
+      quiet: true,
+    });
+
+    if (request.queue && result.status === "success") {
+      record.queuedIds = await enqueuePipelineResult(result);
+    }
+    record.result = result;
+    record.status = result.status;
+    record.error = result.error;
+  } catch (error: any) {
+    record.status = "error";
+    record.error = error.message || String(error);
+  } finally {
+    record.finishedAt = new Date().toISOString();
+    slots.release();
+    console.error(`[SERVE] Run ${record.runId} finished: ${record.status}${record.error ? ` (${record.error})` : ""}`);
+  }
+}
+
+async function startRun(req: Request): Promise<Response> {
+  const request = parseRunRequest(await readBody(req));
+  if (!slots.hasRoom()) {
+    throw new HttpError(429, "Too many runs in progress — try again later");
+  }
+
+  const record: RunRecord = {
+    runId: createRunId(),
+    status: "queued",
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    request,
+    result: null,
+  };
+  remember(record);
+  const done = executeRun(record);
+
+  if (request.wait === false) {
+    return json({ runId: record.runId, status: record.status, url: `/runs/${record.runId}` }, 202);
+  }
+
+  await done;
+  if (!record.result) {
+    return json({ runId: record.runId, status: record.status, error: record.error }, 500);
+  }
+  const body = record.queuedIds ? { ...record.result, queuedIds: record.queuedIds } : record.result;
+  return json(body, record.status === "error" ? 500 : 200);
+}
+
+async function publishNow(idParam: string): Promise<Response> {
+  const id = Number(idParam);
+  const item = Number.isInteger(id) ? getQueueItem(id) : null;
+  if (!item) throw new HttpError(404, `Queue item not found: ${idParam}`);
+  // Only reviewed items go out — a pending one still needs tg queue approve
+  if (item.status !== "approved" && item.status !== "scheduled") {
+    throw new HttpError(409, `#${item.id} is ${item.status} — only approved or scheduled items can be published`);
+  }
+
+  const publish = publishChain.then(() => publishQueueItem(item));
+  publishChain = publish.catch(() => {});
+  const outcome: PublishOutcome = await publish;
+
+  const status = outcome.status === "skipped" ? 409 : outcome.status === "error" ? 502 : 200;
+  return json({ id: item.id, ...outcome, item: getQueueItem(item.id) }, status);
+}
+
+function listRecentPosts(params: URLSearchParams): Response {
+  const platform = params.get("platform") || undefined;
+  const status = (params.get("status") || undefined) as LedgerStatus | undefined;
+  if (status && !LEDGER_STATUSES.includes(status)) {
+    throw new HttpError(400, `Unknown status "${status}" — expected ${LEDGER_STATUSES.join(", ")}`);
+  }
+  const limit = Number(params.get("limit") ?? 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    throw new HttpError(400, "limit must be a whole number between 1 and 500");
+  }
+  return json(listPosts({ platform, status, includeDryRuns: params.get("dryRuns") === "1", limit }));
+}
+
+function listQueueItems(params: URLSearchParams): Response {
+  const status = (params.get("status") || undefined) as QueueStatus | undefined;
+  if (status && !QUEUE_STATUSES.includes(status)) {
+    throw new HttpError(400, `Unknown status "${status}" — expected ${QUEUE_STATUSES.join(", ")}`);
+  }
+  return json(listQueue(status));
+}
+
+function summarize(record: RunRecord) {
+  const { result, ...rest } = record;
+  return { ...rest, contentPieces: result?.meta.contentPieces ?? null };
+}
+
+async function route(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const parts = url.pathname.split("/").filter(Boolean);
+  const method = req.method;
+
+  if (parts[0] === "runs") {
+    if (parts.length === 1 && method === "POST") return startRun(req);
+    if (parts.length === 1 && method === "GET") return json([...runs.values()].reverse().map(summarize));
+    if (parts.length === 2 && method === "GET") {
+      const record = runs.get(parts[1]);
+      if (!record) throw new HttpError(404, `Run not found: ${parts[1]}`);
+      return json(record);
+    }
+  }
+  if (parts[0] === "posts") {
+    if (parts.length === 1 && method === "GET") return listRecentPosts(url.searchParams);
+    if (parts.length === 3 && parts[2] === "publish" && method === "POST") return publishNow(parts[1]);
+  }
+  if (parts[0] === "queue" && parts.length === 1 && method === "GET") {
+    return listQueueItems(url.searchParams);
+  }
+
+  throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+}
+
+export async function handleRequest(req: Request): Promise<Response> {
+  if (!isAuthorized(req)) {
+    return json({ error: "Missing or invalid bearer token" }, 401, { "www-authenticate": "Bearer" });
+  }
+  try {
+    return await route(req);
+  } catch (error: any) {
+    if (error instanceof HttpError) return json({ error: error.message }, error.status);
+    console.error(`[SERVE] ${req.method} ${req.url} failed: ${error.message}`);
+    return json({ error: error.message || "Internal error" }, 500);
+  }
+}
+
+// Call after the config check — it needs server.token to be set
+export function startServer(options: { host?: string; port?: number } = {}): { host: string; port: number } {
+  const host = options.host ?? config.server.host;
+  const port = options.port ?? config.server.port;
+  slots = new RunSlots(config.server.maxConcurrentRuns, config.server.maxQueuedRuns);
+
+  // idleTimeout 0: a POST /runs that waits for the pipeline can stay silent for minutes
+  Bun.serve({ hostname: host, port, idleTimeout: 0, fetch: handleRequest });
+
+  const profile = getActiveProfile();
+  console.error(`[SERVE] Listening on http://${host}:${port}${profile ? ` (profile: ${profile})` : ""}`);
+  console.error(`[SERVE] ${config.server.maxConcurrentRuns} concurrent run(s), ${config.server.maxQueuedRuns} waiting`);
+  return { host, port };
+}
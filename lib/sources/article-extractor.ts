@@ -0,0 +1,410 @@
+import { decodeEntities } from "./feed-parser";
+
+// Readability-style extraction of an article's main text from its HTML page. The page is
+// parsed into a loose element tree, paragraphs score their ancestors (by length and commas,
+// discounted for link-heavy blocks and boilerplate class names), and the best-scoring
+// container is read back as paragraphs. Pure functions — give it saved HTML to try it offline.
+
+export interface ExtractedArticle {
+  title?: string;
+  text: string;                  // main text, paragraphs separated by blank lines
+  summary: string;               // lead sentences, at most SUMMARY_MAX_CHARS
+  facts: string[];               // sentences carrying figures, names or quotes, in article order
+  wordCount: number;
+}
+
+export interface ExtractOptions {
+  maxFacts?: number;
+}
+
+interface HtmlNode {
+  tag: string;
+  classAndId: string;            // lower-cased class + id, for the boilerplate heuristics
+  children: (HtmlNode | string)[];
+  parent: HtmlNode | null;
+  score: number;
+  scored: boolean;
+}
+
+const SUMMARY_MIN_CHARS = 200;
+const SUMMARY_MAX_CHARS = 400;
+const DEFAULT_MAX_FACTS = 5;
+
+const VOID_TAGS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr"]);
+// Dropped with everything inside them
+const SKIP_TAGS = new Set(["script", "style", "noscript", "template", "svg", "iframe", "form", "nav", "aside", "footer", "button", "select", "figcaption", "head"]);
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "blockquote", "dd", "div", "dl", "dt", "fieldset", "figure", "footer", "form",
+  "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "li", "main", "nav", "ol", "p", "pre", "section", "table", "ul",
+]);
+// Blocks read back as one paragraph each
+const PARAGRAPH_TAGS = new Set(["p", "pre", "blockquote", "li", "h2", "h3", "h4", "h5", "h6", "td"]);
+// An open <p> ends when one of these starts
+const CLOSES_P = new Set(["p", "div", "ul", "ol", "table", "h1", "h2", "h3", "h4", "h5", "h6", "section", "article", "blockquote", "pre", "figure", "header", "footer", "main"]);
+
+const UNLIKELY = /comment|share|social|related|promo|newsletter|subscribe|sidebar|footer|nav|menu|banner|advert|\bad-|sponsor|cookie|popup|modal|breadcrumb|author-bio|byline|dateline|disclaimer|recirc|trending/;
+const POSITIVE = /article|body|content|entry|main|post|story|text|prose/;
+const NEGATIVE = /comment|meta|footer|footnote|sidebar|widget|share|social|related|promo|hidden|byline|caption/;
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+const BOILERPLATE_SENTENCE = /\b(click|subscribe|sign up|newsletter|cookies?|read more|follow us|all rights reserved|disclaimer|advertisement)\b/i;
+
+// Abbreviations whose trailing dot does not end a sentence
+const ABBREVIATIONS = /(?:\b(?:mr|mrs|ms|dr|prof|inc|ltd|co|corp|jr|sr|st|vs|etc|no|approx|est|jan|feb|mar|apr|jun|jul|aug|sep|sept|oct|nov|dec)|\b[a-z]|\b(?:[a-z]\.)+[a-z])\.$/i;
+
+export function extractArticle(html: string, options: ExtractOptions = {}): ExtractedArticle {
+  const { root, title, jsonLdBody, metaDescription } = parseHtml(html);
+  removeUnlikely(root);
+
+  let text = readParagraphs(pickContent(root)).join("\n\n");
+  // Some pages render the body with script; the article's JSON-LD usually still has it
+  if (jsonLdBody && jsonLdBody.length > text.length) {
+    text = jsonLdBody;
+  }
+
+  const sentences = splitSentences(text);
+  const summary = summarize(sentences) || metaDescription || "";
+  return {
+    title,
+    text,
+    summary,
+    facts: keyFacts(sentences, options.maxFacts ?? DEFAULT_MAX_FACTS),
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+  };
+}
+
+// --- parsing ---
+
+function parseHtml(html: string): { root: HtmlNode; title?: string; jsonLdBody?: string; metaDescription?: string } {
+  const lower = html.toLowerCase();
+  const root = node("#root", "", null);
+  const stack: HtmlNode[] = [root];
+  const current = () => stack[stack.length - 1];
+  let title: string | undefined;
+  let ogTitle: string | undefined;
+  let metaDescription: string | undefined;
+  let jsonLdBody: string | undefined;
+
+  const token = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(html)) !== null) {
+    const [raw, closeName, openName, rawAttrs] = match;
+
+    if (openName) {
+      const tag = openName.toLowerCase();
+      const attrs = parseAttributes(rawAttrs);
+
+      if (tag === "meta") {
+        const name = (attrs.property || attrs.name || "").toLowerCase();
+        if (name === "og:title") ogTitle = decodeEntities(attrs.content || "").trim() || undefined;
+        if ((name === "description" || name === "og:description") && !metaDescription) {
+          metaDescription = decodeEntities(attrs.content || "").trim() || undefined;
+        }
+        continue;
+      }
+
+      // Raw-text elements: take their content verbatim up to the matching close tag
+      if (tag === "script" || tag === "style" || tag === "title" || tag === "textarea") {
+        const end = lower.indexOf(`</${tag}`, token.lastIndex);
+        const content = html.slice(token.lastIndex, end === -1 ? html.length : end);
+        token.lastIndex = end === -1 ? html.length : html.indexOf(">", end) + 1 || html.length;
+        if (tag === "title") title = collapse(decodeEntities(content));
+        if (tag === "script" && /ld\+json/i.test(attrs.type || "")) {
+          const body = articleBodyFromJsonLd(content);
+          if (body && (!jsonLdBody || body.length > jsonLdBody.length)) jsonLdBody = body;
+        }
+        continue;
+      }
+
+      closeOpenParagraph(stack, tag);
+      if (tag === "li") closeUpTo(stack, "li", ["ul", "ol"]);
+
+      if (VOID_TAGS.has(tag) || raw.endsWith("/>")) {
+        if (tag === "br") current().children.push("\n");
+        continue;
+      }
+      const child = node(tag, `${attrs.class || ""} ${attrs.id || ""}`.toLowerCase(), current());
+      current().children.push(child);
+      stack.push(child);
+    } else if (closeName) {
+      const tag = closeName.toLowerCase();
+      const index = stack.map(n => n.tag).lastIndexOf(tag);
+      // Stray close tags are ignored; closing an outer element closes everything left open inside it
+      if (index > 0) stack.length = index;
+    } else if (!raw.startsWith("<!") && !raw.startsWith("<?")) {
+      current().children.push(decodeEntities(raw));
+    }
+  }
+
+  const h1 = findFirst(root, "h1");
+  return {
+    root,
+    title: ogTitle || (h1 ? collapse(textOf(h1)) : undefined) || title,
+    jsonLdBody,
+    metaDescription,
+  };
+}
+
+function node(tag: string, classAndId: string, parent: HtmlNode | null): HtmlNode {
+  return { tag, classAndId, children: [], parent, score: 0, scored: false };
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attr = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = attr.exec(raw)) !== null) {
+    attrs[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? "";
+  }
+  return attrs;
+}
+
+function closeOpenParagraph(stack: HtmlNode[], opening: string): void {
+  if (!CLOSES_P.has(opening)) return;
+  closeUpTo(stack, "p", ["div", "section", "article", "main", "td", "li", "blockquote"]);
+}
+
+// Pops an open <tag> unless one of the barrier elements sits between it and the top
+function closeUpTo(stack: HtmlNode[], tag: string, barriers: string[]): void {
+  for (let i = stack.length - 1; i > 0; i--) {
+    if (stack[i].tag === tag) {
+      stack.length = i;
+      return;
+    }
+    if (barriers.includes(stack[i].tag)) return;
+  }
+}
+
+function articleBodyFromJsonLd(json: string): string | undefined {
+  let data: unknown;
+  try {
+    data = JSON.parse(json.trim());
+  } catch {
+    return undefined;
+  }
+  const queue: unknown[] = [data];
+  while (queue.length > 0) {
+    const item = queue.shift();
+    if (Array.isArray(item)) {
+      queue.push(...item);
+    } else if (item && typeof item === "object") {
+      const record = item as Record<string, unknown>;
+      if (typeof record.articleBody === "string" && record.articleBody.trim()) {
+        return record.articleBody
+          .split(/\n\s*\n|\r\n\s*\r\n/)
+          .map(paragraph => collapse(decodeEntities(paragraph)))
+          .filter(Boolean)
+          .join("\n\n");
+      }
+      if (record["@graph"]) queue.push(record["@graph"]);
+    }
+  }
+  return undefined;
+}
+
+// --- scoring ---
+
+function removeUnlikely(parent: HtmlNode): void {
+  parent.children = parent.children.filter(child => {
+    if (typeof child === "string") return true;
+    if (SKIP_TAGS.has(child.tag)) return false;
+    if (child.tag !== "body" && child.tag !== "article" && child.tag !== "main"
+        && UNLIKELY.test(child.classAndId) && !POSITIVE.test(child.classAndId)) {
+      return false;
+    }
+    removeUnlikely(child);
+    return true;
+  });
+}
+
+function pickContent(root: HtmlNode): HtmlNode {
+  const candidates: HtmlNode[] = [];
+
+  walk(root, element => {
+    if (!isParagraphLike(element)) return;
+    const text = collapse(textOf(element));
+    if (text.length < 25) return;
+
+    const points = 1 + (text.match(/,/g) || []).length + Math.min(3, Math.floor(text.length / 100));
+    let ancestor = element.parent;
+    for (let level = 0; ancestor && ancestor.tag !== "#root" && level < 3; level++, ancestor = ancestor.parent) {
+      if (!ancestor.scored) {
+        ancestor.score = initialScore(ancestor);
+        ancestor.scored = true;
+        candidates.push(ancestor);
+      }
+      ancestor.score += points / (level === 0 ? 1 : level === 1 ? 2 : level * 3);
+    }
+  });
+
+  let best: HtmlNode | null = null;
+  for (const candidate of candidates) {
+    candidate.score *= 1 - linkDensity(candidate);
+    if (!best || candidate.score > best.score) best = candidate;
+  }
+  if (!best) return findFirst(root, "body") || root;
+
+  // A wrapper with the same text as the winner (one child, nothing else) reads the same — keep the
+  // winner; but when the winner's parent holds sibling blocks that scored well too, take the parent
+  const parent = best.parent;
+  if (parent && parent.tag !== "#root") {
+    const threshold = Math.max(10, best.score * 0.2);
+    const strongSiblings = parent.children.filter(
+      (child): child is HtmlNode => typeof child !== "string" && child !== best && child.scored && child.score >= threshold
+    );
+    if (strongSiblings.length > 0) return parent;
+  }
+  return best;
+}
+
+function initialScore(element: HtmlNode): number {
+  let score = 0;
+  switch (element.tag) {
+    case "article": score += 10; break;
+    case "div": case "section": case "main": score += 5; break;
+    case "pre": case "td": case "blockquote": score += 3; break;
+    case "ol": case "ul": case "dl": case "dd": case "dt": case "li": case "address": score -= 3; break;
+    case "h1": case "h2": case "h3": case "h4": case "h5": case "h6": case "th": score -= 5; break;
+  }
+  if (POSITIVE.test(element.classAndId)) score += 25;
+  if (NEGATIVE.test(element.classAndId)) score -= 25;
+  return score;
+}
+
+function linkDensity(element: HtmlNode): number {
+  const length = collapse(textOf(element)).length;
+  if (length === 0) return 0;
+  let linkLength = 0;
+  walk(element, child => {
+    if (child.tag === "a") linkLength += collapse(textOf(child)).length;
+  }, false);
+  return Math.min(1, linkLength / length);
+}
+
+// <p>-like: a paragraph tag, or a div holding only inline content
+function isParagraphLike(element: HtmlNode): boolean {
+  if (element.tag === "p" || element.tag === "pre" || element.tag === "td") return true;
+  return element.tag === "div" && !element.children.some(child => typeof child !== "string" && BLOCK_TAGS.has(child.tag));
+}
+
+// --- reading back ---
+
+function readParagraphs(container: HtmlNode): string[] {
+  const paragraphs: string[] = [];
+  let loose = "";
+  const flushLoose = () => {
+    const text = collapse(loose);
+    if (text.length >= 40) paragraphs.push(text);
+    loose = "";
+  };
+
+  const visit = (element: HtmlNode) => {
+    for (const child of element.children) {
+      if (typeof child === "string") {
+        loose += child;
+      } else if (PARAGRAPH_TAGS.has(child.tag) || isParagraphLike(child)) {
+        flushLoose();
+        const text = collapse(textOf(child));
+        // In div soup a block that doesn't end like a sentence is a headline or label
+        if (child.tag === "div" && !SENTENCE_END.test(text)) continue;
+        if (text && linkDensity(child) < 0.5) paragraphs.push(text);
+      } else if (BLOCK_TAGS.has(child.tag) || child.tag === "h1") {
+        flushLoose();
+        if (child.tag !== "h1") visit(child);
+      } else {
+        loose += textOf(child);
+      }
+    }
+  };
+  visit(container);
+  flushLoose();
+  return paragraphs;
+}
+
+function textOf(element: HtmlNode): string {
+  return element.children
+    .map(child => typeof child === "string" ? child : BLOCK_TAGS.has(child.tag) ? ` ${textOf(child)} ` : textOf(child))
+    .join("");
+}
+
+function walk(element: HtmlNode, visit: (element: HtmlNode) => void, includeSelf = true): void {
+  if (includeSelf) visit(element);
+  for (const child of element.children) {
+    if (typeof child !== "string") walk(child, visit);
+  }
+}
+
+function findFirst(element: HtmlNode, tag: string): HtmlNode | null {
+  for (const child of element.children) {
+    if (typeof child === "string") continue;
+    if (child.tag === tag) return child;
+    const found = findFirst(child, tag);
+    if (found) return found;
+  }
+  return null;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// --- summary and facts ---
+
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const boundary = /[.!?]["'”’)\]]*\s+(?=["'“‘(\[]?[A-Z0-9$£€])/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(paragraph)) !== null) {
+      const candidate = paragraph.slice(start, match.index + match[0].trimEnd().length);
+      if (ABBREVIATIONS.test(candidate.replace(/["'”’)\]]+$/, ""))) continue;
+      sentences.push(candidate.trim());
+      start = match.index + match[0].length;
+    }
+    const rest = paragraph.slice(start).trim();
+    if (rest) sentences.push(rest);
+  }
+  return sentences.map(collapse).filter(Boolean);
+}
+
+// Lead sentences — news writing puts the who/what/when first
+function summarize(sentences: string[]): string {
+  let summary = "";
+  for (const sentence of sentences) {
+    if (BOILERPLATE_SENTENCE.test(sentence)) continue;
+    const next = summary ? `${summary} ${sentence}` : sentence;
+    if (next.length > SUMMARY_MAX_CHARS) {
+      if (!summary) summary = `${sentence.slice(0, SUMMARY_MAX_CHARS - 1).replace(/\s+\S*$/, "")}…`;
+      break;
+    }
+    summary = next;
+    if (summary.length >= SUMMARY_MIN_CHARS) break;
+  }
+  return summary;
+}
+
+// Sentences worth handing the model as ground truth: figures, money, percentages, dates,
+// named sources and direct quotes. Questions and boilerplate are skipped.
+export function keyFacts(sentences: string[], max: number): string[] {
+  const scored = sentences.map((sentence, index) => {
+    if (sentence.length < 40 || sentence.length > 300 || sentence.endsWith("?") || BOILERPLATE_SENTENCE.test(sentence)) {
+      return { sentence, index, score: 0 };
+    }
+    let score = 0;
+    score += Math.min(3, (sentence.match(/\d[\d,.]*/g) || []).length) * 1.5;
+    if (/[$£€]\s?\d|\d\s?(%|percent|million|billion|trillion|bn|m\b|k\b)/i.test(sentence)) score += 2;
+    if (/\b(19|20)\d{2}\b|\b(monday|tuesday|wednesday|thursday|friday|saturday|sunday|january|february|march|april|may|june|july|august|september|october|november|december)\b/i.test(sentence)) score += 1;
+    if (/["“][^"”]{10,}["”]/.test(sentence) || /\b(said|says|according to|told|announced|reported)\b/i.test(sentence)) score += 1;
+    const properNouns = (sentence.slice(1).match(/\b[A-Z][a-zA-Z]+/g) || []).length;
+    score += Math.min(2, properNouns * 0.5);
+    if (index < 5) score += 1;
+    return { sentence, index, score };
+  });
+
+  return scored
+    .filter(item => item.score >= 3)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, max)
+    .sort((a, b) => a.index - b.index)
+    .map(item => item.sentence);
+}
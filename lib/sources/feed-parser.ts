@@ -0,0 +1,451 @@
+// Streaming RSS 2.0 / RSS 1.0 (RDF) / Atom parser for the news source.
+// A small XML tokenizer takes the document in chunks (write/end), so a feed can be parsed
+// while it downloads and the download dropped once enough items are in. Namespaces are
+// resolved from the xmlns declarations in scope, not from whatever prefix a feed picked.
+
+export interface FeedItem {
+  title: string;
+  link: string;
+  publishedAt?: string;          // ISO 8601, when the feed gave a parseable date
+  description?: string;          // plain text — HTML stripped, entities decoded
+  author?: string;
+  categories: string[];
+  imageUrl?: string;
+}
+
+export interface FeedParserOptions {
+  baseUrl?: string;              // resolves relative links and images (Atom allows them)
+  limit?: number;                // stop collecting after this many items
+}
+
+const NS = {
+  atom: "http://www.w3.org/2005/Atom",
+  rss1: "http://purl.org/rss/1.0/",
+  rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  dc: "http://purl.org/dc/elements/1.1/",
+  content: "http://purl.org/rss/1.0/modules/content/",
+  media: "http://search.yahoo.com/mrss/",
+  xml: "http://www.w3.org/XML/1998/namespace",
+};
+
+// Plenty of feeds use the prefix without declaring it — fall back to the usual binding
+const CONVENTIONAL_PREFIXES: Record<string, string> = {
+  dc: NS.dc,
+  content: NS.content,
+  media: NS.media,
+  atom: NS.atom,
+  rdf: NS.rdf,
+  xml: NS.xml,
+};
+
+const IMAGE_EXTENSION = /\.(jpe?g|png|gif|webp|avif)(\?|#|$)/i;
+
+// XML's five plus the HTML entities feeds actually use
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'",
+  nbsp: " ", hellip: "…", mdash: "—", ndash: "–", lsquo: "‘", rsquo: "’", sbquo: "‚",
+  ldquo: "“", rdquo: "”", bdquo: "„", laquo: "«", raquo: "»", lsaquo: "‹", rsaquo: "›",
+  bull: "•", middot: "·", copy: "©", reg: "®", trade: "™", deg: "°", plusmn: "±", times: "×",
+  divide: "÷", euro: "€", pound: "£", yen: "¥", cent: "¢", sect: "§", para: "¶", dagger: "†",
+  prime: "′", iexcl: "¡", iquest: "¿", shy: "­", zwj: "‍", zwnj: "‌", thinsp: " ",
+  ensp: " ", emsp: " ", agrave: "à", aacute: "á", acirc: "â", atilde: "ã", auml: "ä",
+  aring: "å", aelig: "æ", ccedil: "ç", egrave: "è", eacute: "é", ecirc: "ê", euml: "ë", igrave: "ì",
+  iacute: "í", icirc: "î", iuml: "ï", ntilde: "ñ", ograve: "ò", oacute: "ó", ocirc: "ô", otilde: "õ",
+  ouml: "ö", oslash: "ø", ugrave: "ù", uacute: "ú", ucirc: "û", uuml: "ü", yacute: "ý", szlig: "ß",
+  Agrave: "À", Aacute: "Á", Acirc: "Â", Atilde: "Ã", Auml: "Ä", Aring: "Å", AElig: "Æ", Ccedil: "Ç",
+  Egrave: "È", Eacute: "É", Ecirc: "Ê", Euml: "Ë", Ntilde: "Ñ", Ouml: "Ö", Oslash: "Ø", Uuml: "Ü",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (whole, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : whole;
+    }
+    return NAMED_ENTITIES[name] ?? whole;
+  });
+}
+
+// Feed text is often HTML (escaped or in CDATA) — reduce it to one line of plain text
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<!--[\s\S]*?-->/g, " ")
+      .replace(/<\/?[a-z][^>]*>/gi, " ")
+  ).replace(/\s+/g, " ").trim();
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// RFC 822 (RSS 2.0) and ISO 8601 (Atom, dc:date) → ISO, undefined when unreadable
+export function normalizeDate(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  // "+0000"-style offsets without a colon and "UT" trip some Date parsers
+  const cleaned = trimmed.replace(/\bUT$/, "GMT").replace(/^(\d{4}-\d\d-\d\dT[\d:.]+)([+-]\d\d)(\d\d)$/, "$1$2:$3");
+  const time = Date.parse(cleaned);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+// === TOKENIZER ===
+
+interface Attribute {
+  name: string;
+  value: string;
+}
+
+interface TokenHandler {
+  open(name: string, attributes: Attribute[], selfClosing: boolean): void;
+  close(name: string): void;
+  text(text: string): void;
+}
+
+class XmlTokenizer {
+  private buffer = "";
+
+  constructor(private handler: TokenHandler) {}
+
+  write(chunk: string): void {
+    this.buffer += chunk;
+    this.drain(false);
+  }
+
+  end(): void {
+    this.drain(true);
+    this.buffer = "";
+  }
+
+  // Consumes every complete token; an unfinished tag waits for the next chunk
+  private drain(final: boolean): void {
+    let pos = 0;
+    const buf = this.buffer;
+
+    while (pos < buf.length) {
+      const lt = buf.indexOf("<", pos);
+      if (lt === -1) {
+        // A text run may end in a half-written entity — keep it until more arrives
+        const amp = final ? -1 : buf.lastIndexOf("&");
+        const cut = amp >= pos && buf.indexOf(";", amp) === -1 ? amp : buf.length;
+        if (cut > pos) this.handler.text(decodeEntities(buf.slice(pos, cut)));
+        pos = cut;
+        break;
+      }
+      if (lt > pos) this.handler.text(decodeEntities(buf.slice(pos, lt)));
+      pos = lt;
+
+      const end = this.tokenEnd(buf, pos);
+      if (end === -1) {
+        if (final) pos = buf.length; // truncated document — drop the broken tail
+        break;
+      }
+      this.emit(buf.slice(pos, end));
+      pos = end;
+    }
+
+    this.buffer = buf.slice(pos);
+  }
+
+  // Index just past the token starting at "<", or -1 when it isn't complete yet
+  private tokenEnd(buf: string, start: number): number {
+    const closer = (marker: string) => {
+      const at = buf.indexOf(marker, start);
+      return at === -1 ? -1 : at + marker.length;
+    };
+    if (buf.startsWith("<!--", start)) return closer("-->");
+    if (buf.startsWith("<![CDATA[", start)) return closer("]]>");
+    if (buf.startsWith("<?", start)) return closer("?>");
+    // Not enough buffered yet to know which of the above it is
+    if (buf.length - start < 9 && ("<![CDATA[".startsWith(buf.slice(start)) || "<!--".startsWith(buf.slice(start)))) return -1;
+    if (buf.startsWith("<!", start)) {
+      const bracket = buf.indexOf("[", start);
+      const gt = buf.indexOf(">", start);
+      // DOCTYPE with an internal subset: <!DOCTYPE rss [ ... ]>
+      return bracket !== -1 && (gt === -1 || bracket < gt) ? closer("]>") : gt === -1 ? -1 : gt + 1;
+    }
+
+    let quote = "";
+    for (let i = start + 1; i < buf.length; i++) {
+      const ch = buf[i];
+      if (quote) {
+        if (ch === quote) quote = "";
+      } else if (ch === "\"" || ch === "'") {
+        quote = ch;
+      } else if (ch === ">") {
+        return i + 1;
+      }
+    }
+    return -1;
+  }
+
+  private emit(token: string): void {
+    if (token.startsWith("<![CDATA[")) {
+      this.handler.text(token.slice(9, -3));
+      return;
+    }
+    if (token.startsWith("<!") || token.startsWith("<?")) return;
+
+    if (token[1] === "/") {
+      this.handler.close(token.slice(2, -1).trim());
+      return;
+    }
+
+    const selfClosing = token.endsWith("/>");
+    const inner = token.slice(1, selfClosing ? -2 : -1);
+    const nameMatch = /^[^\s/>]+/.exec(inner);
+    if (!nameMatch) return;
+
+    const attributes: Attribute[] = [];
+    const rest = inner.slice(nameMatch[0].length);
+    const attrRegex = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match;
+    while ((match = attrRegex.exec(rest)) !== null) {
+      attributes.push({ name: match[1], value: decodeEntities(match[3] ?? match[4] ?? "") });
+    }
+    this.handler.open(nameMatch[0], attributes, selfClosing);
+  }
+}
+
+// === FEED MODEL ===
+
+interface OpenElement {
+  qname: string;
+  ns: string;
+  local: string;
+  attributes: Record<string, string>;   // by qualified name
+  namespaces: Map<string, string>;       // prefix → URI in scope
+  base?: string;                         // xml:base in scope
+}
+
+interface ItemDraft {
+  depth: number;                         // stack depth of the <item>/<entry> element
+  title?: string;
+  link?: string;
+  guidLink?: string;
+  date?: string;
+  updated?: string;
+  description?: string;                 // HTML — plain-text fields are escaped on the way in
+  content?: string;
+  author?: string;
+  categories: string[];
+  images: string[];
+  fallbackImage?: string;               // first <img> in the HTML, used when nothing better
+}
+
+export class FeedParser implements TokenHandler {
+  readonly items: FeedItem[] = [];
+  private tokenizer = new XmlTokenizer(this);
+  private stack: OpenElement[] = [];
+  private item: ItemDraft | null = null;
+  private capture: { depth: number; text: string } | null = null;
+  private limit: number;
+
+  constructor(private options: FeedParserOptions = {}) {
+    this.limit = options.limit ?? Infinity;
+  }
+
+  get done(): boolean {
+    return this.items.length >= this.limit;
+  }
+
+  write(chunk: string): void {
+    if (!this.done) this.tokenizer.write(chunk);
+  }
+
+  end(): FeedItem[] {
+    if (!this.done) this.tokenizer.end();
+    return this.items;
+  }
+
+  open(qname: string, rawAttributes: Attribute[], selfClosing: boolean): void {
+    const parent = this.stack[this.stack.length - 1];
+    const namespaces = new Map(parent?.namespaces ?? []);
+    const attributes: Record<string, string> = {};
+    for (const { name, value } of rawAttributes) {
+      if (name === "xmlns") namespaces.set("", value);
+      else if (name.startsWith("xmlns:")) namespaces.set(name.slice(6), value);
+      attributes[name] = value;
+    }
+
+    const { ns, local } = this.resolve(qname, namespaces);
+    const base = attributes["xml:base"] ? this.resolveUrl(attributes["xml:base"], parent?.base) : parent?.base;
+    const element: OpenElement = { qname, ns, local, attributes, namespaces, base };
+    this.stack.push(element);
+    // Raw markup inside a text field (<br>, xhtml) still separates words
+    if (this.capture) this.capture.text += " ";
+
+    const isItem = ns === NS.atom ? local === "entry" : local === "item" && (ns === "" || ns === NS.rss1);
+    if (!this.item && isItem) {
+      this.item = { depth: this.stack.length, categories: [], images: [] };
+    } else if (this.item && !this.capture) {
+      this.openItemChild(element);
+    }
+
+    if (selfClosing) this.close(qname);
+  }
+
+  // Unclosed tags (raw <br> in a description) are closed along with their parent;
+  // a stray end tag with no open element is ignored
+  close(qname: string): void {
+    let index = this.stack.length - 1;
+    while (index >= 0 && this.stack[index].qname !== qname) index--;
+    if (index === -1) return;
+    while (this.stack.length > index) this.closeTop();
+  }
+
+  text(text: string): void {
+    if (this.capture) this.capture.text += text;
+  }
+
+  private closeTop(): void {
+    const element = this.stack.pop()!;
+    const depth = this.stack.length + 1;
+
+    if (this.capture && this.capture.depth === depth) {
+      const text = this.capture.text;
+      this.capture = null;
+      if (this.item) this.closeItemChild(element, text);
+    }
+
+    if (this.item && this.item.depth === depth) {
+      const finished = this.finishItem(this.item, element.base);
+      this.item = null;
+      if (finished && !this.done) this.items.push(finished);
+    }
+  }
+
+  private resolve(qname: string, namespaces: Map<string, string>): { ns: string; local: string } {
+    const colon = qname.indexOf(":");
+    if (colon === -1) return { ns: namespaces.get("") ?? "", local: qname };
+    const prefix = qname.slice(0, colon);
+    return { ns: namespaces.get(prefix) ?? CONVENTIONAL_PREFIXES[prefix] ?? prefix, local: qname.slice(colon + 1) };
+  }
+
+  // Elements inside an item: attribute-only ones are read here, text ones start a capture
+  private openItemChild(element: OpenElement): void {
+    const item = this.item!;
+    const { ns, local, attributes } = element;
+
+    if (ns === NS.atom && local === "link") {
+      const rel = attributes.rel ?? "alternate";
+      if (rel === "alternate" && attributes.href && !item.link) item.link = this.resolveUrl(attributes.href, element.base);
+      if (rel === "enclosure" && attributes.href && this.isImage(attributes.type, attributes.href)) {
+        item.images.push(this.resolveUrl(attributes.href, element.base));
+      }
+      return;
+    }
+    if (ns === NS.atom && local === "category") {
+      const term = attributes.label || attributes.term;
+      if (term) item.categories.push(term.trim());
+      return;
+    }
+    if (ns === NS.media && (local === "content" || local === "thumbnail")) {
+      const url = attributes.url;
+      if (url && (local === "thumbnail" || attributes.medium === "image" || this.isImage(attributes.type, url))) {
+        item.images.push(this.resolveUrl(url, element.base));
+      }
+      return;
+    }
+    if (ns === "" && local === "enclosure") {
+      if (attributes.url && this.isImage(attributes.type, attributes.url)) item.images.push(this.resolveUrl(attributes.url, element.base));
+      return;
+    }
+    if (ns === "" && local === "guid" && attributes.isPermaLink === "false") {
+      return; // not a URL — nothing to capture
+    }
+
+    // Text-valued fields: RSS 2.0 (no namespace), RSS 1.0, Atom, Dublin Core, content:encoded
+    const textFields = new Set(["title", "link", "guid", "pubDate", "description", "author", "category",
+      "published", "updated", "summary", "content", "name", "date", "creator", "subject", "encoded"]);
+    // Atom's <author> wraps <name>/<email>/<uri> — only <name> is captured
+    if (textFields.has(local) && !(ns === NS.atom && local === "author")) {
+      this.capture = { depth: this.stack.length, text: "" };
+    }
+  }
+
+  // The tokenizer has already decoded the XML entities once. Only HTML-valued fields are
+  // decoded again (as HTML) — in plain-text fields "&amp;amp;" stays "&amp;".
+  private closeItemChild(element: OpenElement, raw: string): void {
+    const item = this.item!;
+    const { ns, local } = element;
+    if (!raw.trim()) return;
+    const html = this.isHtml(element);
+    const text = html ? htmlToText(raw) : collapseWhitespace(raw);
+    const markup = html ? raw.trim() : escapeHtml(text);
+
+    const rss = ns === "" || ns === NS.rss1;
+    const atom = ns === NS.atom;
+    const parent = this.stack[this.stack.length - 1];
+
+    if ((rss || atom) && local === "title") item.title ??= text;
+    else if (ns === NS.dc && local === "title") item.title ??= text;
+    else if (rss && local === "link") item.link ??= this.resolveUrl(text, element.base);
+    else if (rss && local === "guid" && /^https?:\/\//i.test(text)) item.guidLink ??= text;
+    else if ((rss && local === "pubDate") || (ns === NS.dc && local === "date") || (atom && local === "published")) item.date ??= text;
+    else if (atom && local === "updated") item.updated ??= text;
+    else if ((rss && local === "description") || (atom && local === "summary")) item.description ??= markup;
+    else if ((ns === NS.content && local === "encoded") || (atom && local === "content")) item.content ??= markup;
+    else if ((rss && local === "author") || (ns === NS.dc && local === "creator")) item.author ??= this.cleanAuthor(text);
+    else if (atom && local === "name" && parent?.ns === NS.atom && parent.local === "author") item.author ??= text;
+    else if ((rss && local === "category") || (ns === NS.dc && local === "subject")) item.categories.push(text);
+  }
+
+  // Atom says per element (type="html"); in RSS only description and content:encoded carry HTML
+  private isHtml(element: OpenElement): boolean {
+    if (element.ns === NS.atom) return element.attributes.type === "html" || element.attributes.type === "text/html";
+    const rss = element.ns === "" || element.ns === NS.rss1;
+    return (rss && element.local === "description") || (element.ns === NS.content && element.local === "encoded");
+  }
+
+  private finishItem(item: ItemDraft, base?: string): FeedItem | null {
+    const title = item.title ?? "";
+    const link = item.link ?? item.guidLink;
+    if (!title || !link) return null;
+
+    const html = item.description ?? item.content ?? "";
+    const imgMatch = /<img\b[^>]*\bsrc\s*=\s*["']([^"']+)["']/i.exec(`${item.description ?? ""} ${item.content ?? ""}`);
+    const imageUrl = item.images[0] ?? (imgMatch ? this.resolveUrl(decodeEntities(imgMatch[1]), base) : undefined);
+    const description = htmlToText(html);
+
+    return {
+      title,
+      link: link.trim(),
+      publishedAt: normalizeDate(item.date ?? item.updated ?? ""),
+      description: description || undefined,
+      author: item.author || undefined,
+      categories: [...new Set(item.categories)],
+      imageUrl,
+    };
+  }
+
+  // "jane@example.com (Jane Doe)" → "Jane Doe"
+  private cleanAuthor(author: string): string {
+    const named = /^\S+@\S+\s*\((.+)\)$/.exec(author);
+    return named ? named[1] : author;
+  }
+
+  private isImage(type: string | undefined, url: string): boolean {
+    return type ? type.startsWith("image/") : IMAGE_EXTENSION.test(url);
+  }
+
+  private resolveUrl(url: string, base?: string): string {
+    try {
+      return new URL(url.trim(), base ?? this.options.baseUrl).toString();
+    } catch {
+      return url.trim();
+    }
+  }
+}
+
+// Whole document in one go
+export function parseFeedXml(xml: string, options: FeedParserOptions = {}): FeedItem[] {
+  const parser = new FeedParser(options);
+  parser.write(xml);
+  return parser.end();
+}
@@ -0,0 +1,107 @@
+import { cache } from "../cache";
+
+// Fetch layer for sources: a hard timeout per request (body included), conditional GETs
+// against the ETag / Last-Modified stored from the last download, and a bounded pool for
+// fetching many URLs at once.
+
+// Validators and parsed items live in the source cache, so they survive between runs
+// with the sqlite and file backends (cache clear feed-state forgets them)
+const STATE_PREFIX = "feed-state";
+const STATE_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+interface FetchState<T> {
+  etag?: string;
+  lastModified?: string;
+  items: T;
+  fetchedAt: string;
+}
+
+export interface ConditionalResult<T> {
+  items: T;
+  notModified: boolean;          // 304 — items are the ones stored from the last download
+}
+
+// Runs fetch + read under one deadline; a server that stalls mid-body times out too
+export async function fetchWithTimeout<T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([
+      fetch(url, { ...init, signal: controller.signal }).then(read),
+      deadline,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// GET with If-None-Match / If-Modified-Since from the stored state. A 304 returns the stored
+// items; a 200 is parsed and, when the server sent validators, stored for next time.
+export async function conditionalFetch<T>(
+  url: string,
+  init: RequestInit & { headers?: Record<string, string> },
+  timeoutMs: number,
+  parse: (response: Response) => Promise<T>
+): Promise<ConditionalResult<T>> {
+  const key = cache.generateKey(STATE_PREFIX, { url });
+  const state: FetchState<T> | null = await cache.get(key);
+
+  const headers: Record<string, string> = { ...init.headers };
+  if (state?.etag) headers["If-None-Match"] = state.etag;
+  if (state?.lastModified) headers["If-Modified-Since"] = state.lastModified;
+
+  return fetchWithTimeout(url, { ...init, headers }, timeoutMs, async response => {
+    if (response.status === 304 && state) {
+      await cache.set(key, state, STATE_TTL_SECONDS);
+      return { items: state.items, notModified: true };
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const items = await parse(response);
+    const etag = response.headers.get("etag") ?? undefined;
+    const lastModified = response.headers.get("last-modified") ?? undefined;
+    if (etag || lastModified) {
+      const fresh: FetchState<T> = { etag, lastModified, items, fetchedAt: new Date().toISOString() };
+      await cache.set(key, fresh, STATE_TTL_SECONDS);
+    }
+    return { items, notModified: false };
+  });
+}
+
+// Like Promise.allSettled over items.map(fn), with at most `limit` calls in flight
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
@@ -0,0 +1,133 @@
+// Groups news articles that cover the same story across feeds, so one event reported by
+// CoinTelegraph, CoinDesk and Decrypt comes back as one article with sources = 3.
+// Two articles are the same story when their URLs normalise to the same page, or when
+// their headlines are similar enough and they were published close together.
+
+export interface ClusterableArticle {
+  headline: string;
+  url: string;
+  publishedAt: string;
+  description?: string;
+}
+
+export interface ClusterOptions {
+  titleSimilarity: number;       // 0-1, IDF-weighted word overlap between headlines
+  windowHours: number;           // articles further apart than this are never merged on title alone
+}
+
+export type ClusteredArticle<T> = T & {
+  sources: number;               // distinct sites that carried the story
+  relatedUrls: string[];         // the other articles merged into this one
+};
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "how", "in",
+  "into", "is", "it", "its", "new", "now", "of", "on", "or", "over", "says", "than", "that",
+  "the", "this", "to", "up", "was", "what", "who", "why", "will", "with", "after", "amid",
+]);
+
+// Query parameters that only track the click, never change the page
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src|source|cmpid|guccounter|_ga)$/i;
+
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    const params = [...parsed.searchParams.entries()]
+      .filter(([name]) => !TRACKING_PARAMS.test(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+    const host = parsed.hostname.toLowerCase().replace(/^(www|m|amp)\./, "");
+    const pathname = parsed.pathname.replace(/\/amp\/?$/, "").replace(/\/+$/, "") || "/";
+    return `${host}${pathname}${query}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+function siteOf(url: string): string {
+  return normalizeUrl(url).split("/")[0];
+}
+
+// Headline → comparable words: "$120,000" and "120K" both become "120000", plural and
+// tense endings are trimmed so "surges" matches "surge"
+function headlineTerms(headline: string): Set<string> {
+  const words = headline
+    .toLowerCase()
+    .replace(/(\d),(?=\d{3}\b)/g, "$1")
+    .replace(/\b(\d+(?:\.\d+)?)k\b/g, (_, n: string) => String(Math.round(Number(n) * 1000)))
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+  return new Set(words);
+}
+
+// Crude, but consistent: surge / surges / surged / surging all become "surg"
+function stem(word: string): string {
+  if (/^\d/.test(word) || word.length <= 3) return word;
+  const trimmed = word.replace(/ies$/, "y").replace(/([^s])s$/, "$1").replace(/(ing|ed)$/, "");
+  return trimmed.length > 2 ? trimmed.replace(/e$/, "") : word;
+}
+
+// Greedy single-link clustering, oldest article first. Each cluster is represented by its
+// earliest article (usually the original report).
+export function clusterArticles<T extends ClusterableArticle>(articles: T[], options: ClusterOptions): ClusteredArticle<T>[] {
+  const terms = articles.map(article => headlineTerms(article.headline));
+  const urls = articles.map(article => normalizeUrl(article.url));
+  const times = articles.map(article => {
+    const time = Date.parse(article.publishedAt);
+    return Number.isNaN(time) ? null : time;
+  });
+
+  // Words that show up in many headlines of this batch ("bitcoin" in a crypto feed set) say little
+  const df = new Map<string, number>();
+  for (const set of terms) {
+    for (const term of set) df.set(term, (df.get(term) || 0) + 1);
+  }
+  const idf = (term: string) => Math.log((1 + articles.length) / (1 + (df.get(term) || 0))) + 1;
+
+  const similarity = (a: number, b: number): number => {
+    let shared = 0;
+    let total = 0;
+    for (const term of terms[a]) {
+      total += idf(term);
+      if (terms[b].has(term)) shared += 2 * idf(term);
+    }
+    for (const term of terms[b]) total += idf(term);
+    return total === 0 ? 0 : shared / total;
+  };
+
+  const windowMs = options.windowHours * 60 * 60 * 1000;
+  const sameStory = (a: number, b: number): boolean => {
+    if (urls[a] === urls[b]) return true;
+    const [timeA, timeB] = [times[a], times[b]];
+    if (timeA !== null && timeB !== null && Math.abs(timeA - timeB) > windowMs) return false;
+    return similarity(a, b) >= options.titleSimilarity;
+  };
+
+  const order = articles
+    .map((_, index) => index)
+    .sort((a, b) => (times[a] ?? Infinity) - (times[b] ?? Infinity));
+  const clusters: number[][] = [];
+  for (const index of order) {
+    const cluster = clusters.find(members => members.some(member => sameStory(member, index)));
+    if (cluster) cluster.push(index);
+    else clusters.push([index]);
+  }
+
+  return clusters.map(([first, ...rest]) => {
+    const representative = articles[first];
+    const related = [...new Set(rest.map(index => articles[index].url).filter(url => normalizeUrl(url) !== urls[first]))];
+    const sites = new Set([first, ...rest].map(index => siteOf(articles[index].url)));
+    return { ...representative, sources: sites.size, relatedUrls: related };
+  });
+}
+
+// Plain word overlap (Dice, 0-1) between two headlines — for matching a headline someone quoted
+export function headlineOverlap(a: string, b: string): number {
+  const [termsA, termsB] = [headlineTerms(a), headlineTerms(b)];
+  if (termsA.size === 0 || termsB.size === 0) return 0;
+  let shared = 0;
+  for (const term of termsA) if (termsB.has(term)) shared++;
+  return (2 * shared) / (termsA.size + termsB.size);
+}
@@ -1,5 +1,9 @@
 import { cache } from "../cache";
 import { config } from "../../config";
+import { FeedParser, FeedItem } from "./feed-parser";
+import { conditionalFetch, fetchWithTimeout, mapWithConcurrency } from "./fetch";
+import { extractArticle } from "./article-extractor";
+import { clusterArticles } from "./news-clusters";
 
 interface NewsArticle {
   headline: string;
@@ -7,8 +11,24 @@ interface NewsArticle {
   publishedAt: string;
   relevance_score: number;
   description?: string;
+  author?: string;
+  categories?: string[];
+  imageUrl?: string;
+  sources?: number;              // outlets that covered the story (set by clustering)
+  relatedUrls?: string[];        // the merged duplicates from other outlets
+  summary?: string;              // lead of the full article text (set by extraction)
+  facts?: string[];              // sentences with figures, names or quotes from the full text
 }
 
+// Items taken from each feed — the rest of the download is skipped
+const MAX_ITEMS_PER_FEED = 15;
+const DEFAULT_FETCH_CONCURRENCY = 4;
+const DEFAULT_FEED_TIMEOUT_SECONDS = 10;
+// Coverage beyond this many extra outlets adds no more relevance
+const MAX_COVERAGE_BOOSTED = 3;
+// Article pages larger than this are cut off — the story is near the top anyway
+const MAX_ARTICLE_BYTES = 2 * 1024 * 1024;
+
 export class NewsAnalysisService {
   private newsApiKey: string;
 
@@ -48,10 +68,13 @@ export class NewsAnalysisService {
         articles.push(...newsApiArticles);
       }
 
-      // Filter and rank by relevance
-      const relevantArticles = this.rankArticlesByRelevance(articles, keywords, businessType)
+      // Merge the same story from different outlets, then filter and rank by relevance
+      const relevantArticles = this.rankArticlesByRelevance(this.clusterStories(articles), keywords, businessType)
         .slice(0, 10);
 
+      // Pull the full text of the top articles so posts can cite real facts
+      await this.extractTopArticles(relevantArticles);
+
       // Cache for 4 hours
       await cache.set(cacheKey, relevantArticles, 4 * 60 * 60);
 
@@ -67,19 +90,22 @@ export class NewsAnalysisService {
       const query = keywords.slice(0, 3).join(" OR ");
       const url = `https://newsapi.org/v2/top-headlines?country=gb&category=technology&q=${encodeURIComponent(query)}&apiKey=${this.newsApiKey}`;
 
-      // @ts-ignore — Bun-specific TLS option (fixes cert errors on Linux)
-      const response = await fetch(url, { tls: { rejectUnauthorized: false } });
-
-      if (!response.ok) {
-        if (response.status === 429) {
-          console.warn("NewsAPI rate limit exceeded");
-          return [];
+      // Same deadline as a feed, so a stalled NewsAPI can't hold up trend analysis either
+      const timeoutMs = (config.sources.news.feedTimeoutSeconds ?? DEFAULT_FEED_TIMEOUT_SECONDS) * 1000;
+      const data = await fetchWithTimeout<any>(url, {
+        // @ts-ignore — Bun-specific TLS option (fixes cert errors on Linux)
+        tls: { rejectUnauthorized: false },
+      }, timeoutMs, async response => {
+        if (!response.ok) {
+          if (response.status === 429) {
+            console.warn("NewsAPI rate limit exceeded");
+            return null;
+          }
+          throw new Error(`NewsAPI error: ${response.status} ${response.statusText}`);
         }
-        throw new Error(`NewsAPI error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const articles = data.articles || [];
+        return response.json();
+      });
+      const articles = data?.articles || [];
 
       return articles.map((article: any) => ({
         headline: article.title,
@@ -94,85 +120,173 @@ export class NewsAnalysisService {
     }
   }
 
+  // Feeds are fetched in parallel (sources.news.fetchConcurrency at a time), each with its own timeout
   private async getRssArticles(keywords: string[], businessType: string): Promise<NewsArticle[]> {
-    const articles: NewsArticle[] = [];
+    const concurrency = config.sources.news.fetchConcurrency ?? DEFAULT_FETCH_CONCURRENCY;
+    const results = await mapWithConcurrency(this.rssFeeds, concurrency, feedUrl => this.parseFeed(feedUrl));
 
-    for (const feedUrl of this.rssFeeds) {
-      try {
-        const feedArticles = await this.parseFeed(feedUrl);
-        articles.push(...feedArticles);
-      } catch (error) {
-        console.error(`Error parsing RSS feed ${feedUrl}:`, error);
+    const articles: NewsArticle[] = [];
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        articles.push(...result.value);
+      } else {
+        console.error(`Error parsing RSS feed ${this.rssFeeds[i]}:`, result.reason);
       }
-    }
-
+    });
     return articles;
   }
 
+  // Conditional GET — an unchanged feed (304) reuses the items stored from its last download
   private async parseFeed(feedUrl: string): Promise<NewsArticle[]> {
     try {
-      const response = await fetch(feedUrl, {
+      const timeoutMs = (config.sources.news.feedTimeoutSeconds ?? DEFAULT_FEED_TIMEOUT_SECONDS) * 1000;
+      const { items } = await conditionalFetch<FeedItem[]>(feedUrl, {
         headers: {
           'User-Agent': 'TrendGen/1.0 (Crypto & AI News Aggregator)',
-          'Accept': 'application/rss+xml, application/xml, text/xml, application/atom+xml'
+          'Accept': 'application/rss+xml, application/rdf+xml, application/atom+xml, application/xml, text/xml'
         },
         // @ts-ignore — Bun-specific TLS option (fixes cert errors on Linux)
         tls: { rejectUnauthorized: false },
-      });
+      }, timeoutMs, response => this.readFeed(response, feedUrl));
 
-      if (!response.ok) {
-        throw new Error(`RSS fetch failed: ${response.status} ${response.statusText}`);
-      }
-
-      const xml = await response.text();
-      return this.parseRssXml(xml);
+      return items.map(item => this.toArticle(item));
     } catch (error) {
       console.error(`Error fetching RSS feed ${feedUrl}:`, error);
       return [];
     }
   }
 
-  private parseRssXml(xml: string): NewsArticle[] {
-    const articles: NewsArticle[] = [];
+  // Parses the body as it streams in and stops downloading once enough items are parsed
+  private async readFeed(response: Response, feedUrl: string): Promise<FeedItem[]> {
+    const parser = new FeedParser({ baseUrl: response.url || feedUrl, limit: MAX_ITEMS_PER_FEED });
+    const decoder = this.decoderFor(response.headers.get("content-type"));
 
+    if (!response.body) {
+      parser.write(decoder.decode(new Uint8Array(await response.arrayBuffer())));
+      return parser.end();
+    }
+
+    const reader = response.body.getReader();
     try {
-      // Simple XML parsing for RSS items
-      const itemRegex = /<item>([\s\S]*?)<\/item>/gi;
-      const titleRegex = /<title><!\[CDATA\[(.*?)\]\]><\/title>|<title>(.*?)<\/title>/i;
-      const linkRegex = /<link>(.*?)<\/link>/i;
-      const pubDateRegex = /<pubDate>(.*?)<\/pubDate>/i;
-      const descRegex = /<description><!\[CDATA\[(.*?)\]\]><\/description>|<description>(.*?)<\/description>/i;
-
-      let match;
-      while ((match = itemRegex.exec(xml)) !== null && articles.length < 15) {
-        const itemXml = match[1];
-
-        const titleMatch = titleRegex.exec(itemXml);
-        const linkMatch = linkRegex.exec(itemXml);
-        const pubDateMatch = pubDateRegex.exec(itemXml);
-        const descMatch = descRegex.exec(itemXml);
-
-        if (titleMatch && linkMatch) {
-          articles.push({
-            headline: titleMatch[1] || titleMatch[2] || "",
-            url: linkMatch[1] || "",
-            publishedAt: pubDateMatch ? pubDateMatch[1] : new Date().toISOString(),
-            description: descMatch ? (descMatch[1] || descMatch[2]) : "",
-            relevance_score: 0.3
-          });
-        }
+      while (!parser.done) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parser.write(decoder.decode(value, { stream: true }));
       }
-    } catch (error) {
-      console.error("Error parsing RSS XML:", error);
+      parser.write(decoder.decode());
+    } finally {
+      if (parser.done) await reader.cancel().catch(() => {});
     }
+    return parser.end();
+  }
 
-    return articles;
+  private decoderFor(contentType: string | null) {
+    const charset = /charset=["']?([\w-]+)/i.exec(contentType || "")?.[1];
+    try {
+      return new TextDecoder(charset || "utf-8");
+    } catch {
+      return new TextDecoder("utf-8");
+    }
+  }
+
+  private toArticle(item: FeedItem): NewsArticle {
+    return {
+      headline: item.title,
+      url: item.link,
+      publishedAt: item.publishedAt ?? new Date().toISOString(),
+      description: item.description ?? "",
+      author: item.author,
+      categories: item.categories,
+      imageUrl: item.imageUrl,
+      relevance_score: 0.3
+    };
+  }
+
+  private clusterStories(articles: NewsArticle[]): NewsArticle[] {
+    const clustering = config.sources.news.clustering;
+    if (clustering?.enabled === false) return articles;
+    return clusterArticles(articles, {
+      titleSimilarity: clustering?.titleSimilarity ?? 0.5,
+      windowHours: clustering?.windowHours ?? 36,
+    });
+  }
+
+  // Attaches summary + facts to the first sources.news.extraction.topArticles articles.
+  // Results are cached per URL for a day; a page that fails to load is skipped.
+  private async extractTopArticles(articles: NewsArticle[]): Promise<void> {
+    const extraction = config.sources.news.extraction;
+    if (!extraction?.enabled) return;
+
+    const top = articles.slice(0, extraction.topArticles ?? 3);
+    const timeoutMs = (extraction.timeoutSeconds ?? DEFAULT_FEED_TIMEOUT_SECONDS) * 1000;
+    const concurrency = config.sources.news.fetchConcurrency ?? DEFAULT_FETCH_CONCURRENCY;
+
+    const results = await mapWithConcurrency(top, concurrency, async article => {
+      const cacheKey = cache.generateKey("article-text", { url: article.url });
+      const cached: { summary: string; facts: string[] } | null = await cache.get(cacheKey);
+      if (cached) return cached;
+
+      const html = await fetchWithTimeout<string>(article.url, {
+        headers: {
+          'User-Agent': 'TrendGen/1.0 (Crypto & AI News Aggregator)',
+          'Accept': 'text/html,application/xhtml+xml'
+        },
+        // @ts-ignore — Bun-specific TLS option (fixes cert errors on Linux)
+        tls: { rejectUnauthorized: false },
+      }, timeoutMs, response => this.readHtml(response));
+
+      const { summary, facts } = extractArticle(html, { maxFacts: extraction.maxFacts ?? 5 });
+      const extracted = { summary, facts };
+      await cache.set(cacheKey, extracted, 24 * 60 * 60);
+      return extracted;
+    });
+
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        if (result.value.summary) top[i].summary = result.value.summary;
+        if (result.value.facts.length > 0) top[i].facts = result.value.facts;
+      } else {
+        console.error(`Error extracting article ${top[i].url}:`, result.reason);
+      }
+    });
+  }
+
+  private async readHtml(response: Response): Promise<string> {
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+    const contentType = response.headers.get("content-type");
+    if (contentType && !/html/i.test(contentType)) {
+      throw new Error(`Not an HTML page (${contentType})`);
+    }
+
+    const decoder = this.decoderFor(contentType);
+    if (!response.body) {
+      return decoder.decode(new Uint8Array(await response.arrayBuffer()).slice(0, MAX_ARTICLE_BYTES));
+    }
+
+    const reader = response.body.getReader();
+    let html = "";
+    let bytes = 0;
+    try {
+      while (bytes < MAX_ARTICLE_BYTES) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        bytes += value.byteLength;
+        html += decoder.decode(value, { stream: true });
+      }
+      html += decoder.decode();
+    } finally {
+      if (bytes >= MAX_ARTICLE_BYTES) await reader.cancel().catch(() => {});
+    }
+    return html;
   }
 
   private rankArticlesByRelevance(articles: NewsArticle[], keywords: string[], businessType: string): NewsArticle[] {
     // Get scoring terms from config
     const industryTerms = config.sources.news.scoringTerms?.industry || [];
     const techTerms = config.sources.news.scoringTerms?.tech || [];
+    const coverageBoost = config.sources.news.clustering?.coverageBoost ?? 0.1;
 
     return articles.map(article => {
       let score = 0;
@@ -208,13 +322,17 @@ export class NewsAnalysisService {
         score += 0.1;
       }
 
+      // Boost stories several outlets picked up
+      const extraSources = Math.min(MAX_COVERAGE_BOOSTED, (article.sources ?? 1) - 1);
+      score += coverageBoost * extraSources;
+
       return {
         ...article,
         relevance_score: Math.min(1.0, score)
       };
     })
     .filter(article => article.relevance_score > 0.2)
-    .sort((a, b) => b.relevance_score - a.relevance_score);
+    .sort((a, b) => b.relevance_score - a.relevance_score || (b.sources ?? 1) - (a.sources ?? 1));
   }
 }
 
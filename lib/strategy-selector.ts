@@ -0,0 +1,156 @@
+import { config } from "../config";
+import { getStrategyOutcomes, StrategyOutcome } from "./x-db";
+import { businessTimeZone, zonedParts } from "./time";
+
+export type Strategy = "value_first" | "authority_building" | "direct_sales";
+
+export const STRATEGIES: Strategy[] = ["value_first", "authority_building", "direct_sales"];
+
+// Posterior for one arm: Beta(1 + wins, 1 + losses)
+interface ArmStats {
+  wins: number;
+  losses: number;
+}
+
+export interface StrategyChoice {
+  strategy: Strategy;
+  mode: "bandit" | "uniform";
+  reason: string;
+  samples?: Record<string, number>;
+}
+
+// Outcomes from other hours of the same platform still inform the arm, at reduced weight
+const OTHER_HOURS_WEIGHT = 0.3;
+
+// Thompson sampling over strategy × platform × hour-of-day bucket.
+// A post "wins" if its engagement beats the median of its platform — that keeps
+// X, Facebook and Instagram comparable despite very different absolute numbers.
+export function selectStrategy(platforms: string[], now: Date = new Date()): StrategyChoice {
+  const settings = config.strategySelection;
+  if (!settings || settings.mode !== "bandit") {
+    return {
+      strategy: STRATEGIES[Math.floor(Math.random() * STRATEGIES.length)],
+      mode: "uniform",
+      reason: "uniform random (strategySelection.mode = uniform)",
+    };
+  }
+
+  // Very fresh posts haven't collected their engagement yet
+  const maturedBefore = new Date(now.getTime() - settings.minPostAgeHours * 60 * 60 * 1000).toISOString();
+  const outcomes = getStrategyOutcomes(maturedBefore);
+  const bucketSize = Math.max(1, settings.hourBucketSize);
+  const bucket = hourBucket(now, bucketSize);
+
+  const samples: Record<string, number> = {};
+  const evidence: string[] = [];
+
+  for (const strategy of STRATEGIES) {
+    let total = 0;
+    const parts: string[] = [];
+
+    for (const platform of platforms) {
+      const arm = armStats(outcomes, platform, strategy, bucket, bucketSize);
+      total += sampleBeta(1 + arm.wins, 1 + arm.losses);
+      parts.push(`${platform} ${formatCount(arm.wins)}W/${formatCount(arm.losses)}L`);
+    }
+
+    samples[strategy] = total / Math.max(1, platforms.length);
+    evidence.push(`${strategy} [${parts.join(", ")}] → ${samples[strategy].toFixed(3)}`);
+  }
+
+  const strategy = STRATEGIES.reduce((best, s) => (samples[s] > samples[best] ? s : best), STRATEGIES[0]);
+  const hours = `${String(bucket * bucketSize).padStart(2, "0")}:00-${String(Math.min(24, (bucket + 1) * bucketSize)).padStart(2, "0")}:00`;
+
+  return {
+    strategy,
+    mode: "bandit",
+    reason: `Thompson sampling over ${outcomes.length} scored post(s), hour bucket ${hours}: ${evidence.join("; ")}`,
+    samples,
+  };
+}
+
+// Buckets use the business's local hour (business.timezone), not the server's
+function hourBucket(date: Date, bucketSize: number): number {
+  return Math.floor(zonedParts(date, businessTimeZone()).hour / bucketSize);
+}
+
+function engagementScore(outcome: StrategyOutcome): number {
+  return (outcome.likes ?? 0) + 2 * (outcome.reposts ?? 0) + 2 * (outcome.replies ?? 0);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function armStats(
+  outcomes: StrategyOutcome[],
+  platform: string,
+  strategy: Strategy,
+  bucket: number,
+  bucketSize: number
+): ArmStats {
+  // Threads are X posts — they share the twitter baseline
+  const platformKey = (p: string) => (p === "twitter_thread" ? "twitter" : p);
+  const platformOutcomes = outcomes.filter(o => platformKey(o.platform) === platformKey(platform));
+  const baseline = median(platformOutcomes.map(engagementScore));
+  const stats: ArmStats = { wins: 0, losses: 0 };
+
+  for (const outcome of platformOutcomes) {
+    if (outcome.strategy !== strategy) continue;
+    const weight = hourBucket(new Date(outcome.posted_at), bucketSize) === bucket ? 1 : OTHER_HOURS_WEIGHT;
+    const score = engagementScore(outcome);
+    if (score > baseline) {
+      stats.wins += weight;
+    } else if (score < baseline) {
+      stats.losses += weight;
+    } else {
+      // Ties split evenly
+      stats.wins += weight / 2;
+      stats.losses += weight / 2;
+    }
+  }
+
+  return stats;
+}
+
+function formatCount(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+// Beta(a, b) via two Gamma draws
+function sampleBeta(a: number, b: number): number {
+  const x = sampleGamma(a);
+  const y = sampleGamma(b);
+  return x / (x + y);
+}
+
+// Marsaglia-Tsang; shape < 1 uses the boost trick
+function sampleGamma(shape: number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1) * Math.pow(Math.random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  while (true) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal();
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = Math.random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+// Box-Muller
+function sampleNormal(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
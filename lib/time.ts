@@ -0,0 +1,112 @@
+import { config } from "../config";
+
+// Wall-clock helpers for the business timezone (business.timezone) — built on Intl,
+// so any IANA name works and DST is handled by the runtime's tz database.
+
+export interface ZonedParts {
+  date: string;          // YYYY-MM-DD
+  hour: number;
+  minute: number;
+  dayOfMonth: number;
+  month: number;         // 1-12
+  dayOfWeek: number;     // 0 = Sunday
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    formatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+// The timezone every local day and hour is taken in (daemon, query rotation, strategy hour buckets)
+export function businessTimeZone(): string {
+  return config.business.timezone ?? "UTC";
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function zonedParts(at: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of formatter(timeZone).formatToParts(at)) parts[part.type] = part.value;
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    dayOfMonth: Number(parts.day),
+    month: Number(parts.month),
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// Calendar date (YYYY-MM-DD) in the timezone
+export function zonedDate(at: Date, timeZone: string): string {
+  return zonedParts(at, timeZone).date;
+}
+
+// Minutes since local midnight
+export function zonedMinuteOfDay(at: Date, timeZone: string): number {
+  const { hour, minute } = zonedParts(at, timeZone);
+  return hour * 60 + minute;
+}
+
+// How far the timezone is ahead of UTC at that instant, in minutes
+function offsetMinutes(at: Date, timeZone: string): number {
+  const parts: Record<string, string> = {};
+  for (const part of formatter(timeZone).formatToParts(at)) parts[part.type] = part.value;
+  const asUtc = Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour), Number(parts.minute), Number(parts.second)
+  );
+  return Math.round((asUtc - Math.floor(at.getTime() / 1000) * 1000) / 60000);
+}
+
+// The instant a local wall-clock time happens. Times skipped by a DST jump move forward by the
+// jump; times that happen twice when the clocks go back take the first occurrence.
+export function zonedTimeToUtc(date: string, minuteOfDay: number, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const naive = Date.UTC(year, month - 1, day, Math.floor(minuteOfDay / 60), minuteOfDay % 60);
+  // The offsets half a day either side cover any DST change that can affect this time
+  const before = offsetMinutes(new Date(naive - 12 * 3600000), timeZone);
+  const after = offsetMinutes(new Date(naive + 12 * 3600000), timeZone);
+  const matches = [before, after]
+    .map(offset => naive - offset * 60000)
+    .filter(instant => offsetMinutes(new Date(instant), timeZone) * 60000 === naive - instant);
+  // No match: the time falls in the gap, so read it with the offset from before the jump
+  return new Date(matches.length > 0 ? Math.min(...matches) : naive - before * 60000);
+}
+
+// "HH:MM" → minutes since midnight, null when malformed
+export function parseClock(value: string): number | null {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+// [start, end) in minutes of the day — wraps past midnight when end <= start (e.g. 23:00-07:00)
+export function inClockRange(minuteOfDay: number, start: number, end: number): boolean {
+  return start < end
+    ? minuteOfDay >= start && minuteOfDay < end
+    : minuteOfDay >= start || minuteOfDay < end;
+}
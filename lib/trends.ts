@@ -3,6 +3,8 @@ import { googleTrendsService } from "./sources/google";
 import { xcomScraperService } from "./sources/xcom";
 import { redditAnalysisService } from "./sources/reddit";
 import { newsAnalysisService } from "./sources/news";
+import { coinGeckoService, TrendingCoin } from "./sources/coingecko";
+import { headlineOverlap } from "./sources/news-clusters";
 import { config } from "../config";
 
 export interface TrendData {
@@ -10,6 +12,7 @@ export interface TrendData {
   xcom: string[];
   reddit: any[];
   news: any[];
+  coingecko: TrendingCoin[];
 }
 
 export async function analyzeTrends(
@@ -20,18 +23,36 @@ export async function analyzeTrends(
     industry: string;
     postType?: string;
   },
-  logger?: any
+  logger?: any,
+  // Limit the run to these sources (still subject to their config flags) — default all
+  only?: (keyof TrendData)[]
 ): Promise<TrendData> {
+  const wanted = (source: keyof TrendData) => !only || only.includes(source);
+
+  // Per-source timing for the run log
+  const durations: Partial<Record<keyof TrendData, number>> = {};
+  const track = <T>(source: keyof TrendData, promise: Promise<T>): Promise<T> => {
+    const start = Date.now();
+    return promise.finally(() => { durations[source] = Date.now() - start; });
+  };
+
   // Run all trend analysis in parallel for better performance
-  const [googleSuggestions, xcomTrends, redditDiscussions, newsArticles] = await Promise.allSettled([
-    config.sources.googleTrends
+  const [googleSuggestions, xcomTrends, redditDiscussions, newsArticles, trendingCoins] = await Promise.allSettled([
+    track("google", config.sources.googleTrends && wanted("google")
       ? googleTrendsService.getAutocompleteSuggestions(keywords, businessData.ukCity)
-      : Promise.resolve([]),
-    config.sources.xcom
+      : Promise.resolve([])),
+    track("xcom", config.sources.xcom && wanted("xcom")
       ? xcomScraperService.getUKTrends()
-      : Promise.resolve([]),
-    redditAnalysisService.getRelevantDiscussions(keywords, businessData.ukCity),
-    newsAnalysisService.getRelevantArticles(keywords, businessData.businessType, businessData.ukCity)
+      : Promise.resolve([])),
+    track("reddit", wanted("reddit")
+      ? redditAnalysisService.getRelevantDiscussions(keywords, businessData.ukCity)
+      : Promise.resolve([])),
+    track("news", wanted("news")
+      ? newsAnalysisService.getRelevantArticles(keywords, businessData.businessType, businessData.ukCity)
+      : Promise.resolve([])),
+    track("coingecko", config.sources.coingecko && wanted("coingecko")
+      ? coinGeckoService.getTrendingCoins()
+      : Promise.resolve([]))
   ]);
 
   // Extract results and handle failures gracefully
@@ -39,7 +60,8 @@ export async function analyzeTrends(
     google: googleSuggestions.status === 'fulfilled' ? googleSuggestions.value : [],
     xcom: xcomTrends.status === 'fulfilled' ? xcomTrends.value : [],
     reddit: redditDiscussions.status === 'fulfilled' ? redditDiscussions.value : [],
-    news: newsArticles.status === 'fulfilled' ? newsArticles.value : []
+    news: newsArticles.status === 'fulfilled' ? newsArticles.value : [],
+    coingecko: trendingCoins.status === 'fulfilled' ? trendingCoins.value : []
   };
 
   // Log the search results
@@ -48,6 +70,21 @@ export async function analyzeTrends(
     logger.logXcomTrends(trendsData.xcom);
     logger.logRedditSearch(keywords, trendsData.reddit);
     logger.logCryptoNews(trendsData.news);
+    logger.logCoingeckoTrends(trendsData.coingecko);
+
+    const settled = { google: googleSuggestions, xcom: xcomTrends, reddit: redditDiscussions, news: newsArticles, coingecko: trendingCoins };
+    const enabled = {
+      google: config.sources.googleTrends && wanted("google"),
+      xcom: config.sources.xcom && wanted("xcom"),
+      reddit: config.sources.reddit.enabled && wanted("reddit"),
+      news: config.sources.news.enabled && wanted("news"),
+      coingecko: config.sources.coingecko && wanted("coingecko"),
+    };
+    for (const source of Object.keys(settled) as (keyof TrendData)[]) {
+      const result = settled[source];
+      const error = result.status === "rejected" ? String(result.reason?.message || result.reason) : undefined;
+      logger.logSourceResult(source, enabled[source], trendsData[source].length, durations[source] ?? 0, error);
+    }
   }
 
   return trendsData;
@@ -59,8 +96,24 @@ export interface PostIdea {
   trend_source: string;
   relevance_score: number;
   business_benefit?: string;
+  source?: SourceRef;            // the trend item the idea reacts to, when it names one
+  facts?: string[];              // from the full text of the news article the idea reacts to
+}
+
+// Points an idea back at a TrendData item. id is the label the item carried in the idea
+// prompt — "news:2" is trendsData.news[1].
+export interface SourceRef {
+  type: keyof TrendData;
+  id: string;
+  url?: string;                  // news articles and Reddit threads only
+  headline: string;
 }
 
+const SOURCE_TYPES: (keyof TrendData)[] = ["google", "xcom", "reddit", "news", "coingecko"];
+
+// How closely trend_source must quote a headline for the idea to take that article's facts
+const NEWS_MATCH_THRESHOLD = 0.5;
+
 export async function generatePostIdeas(
   businessData: {
     businessName: string;
@@ -136,7 +189,8 @@ Tone: ${postTypeGuidelines.tone}
 ${postTypeGuidelines.examples}
 
 For each idea, specify:
-- The exact trend or news source that inspired it
+- The exact trend or news source that inspired it (for news, "News: " followed by the headline as written above)
+- The [id] of that item as labelled above (e.g. "news:2"), or null if the idea draws on several
 - A relevance score (0.1 to 1.0) — score 0.7+ for timely, high-signal ideas
 - Brief note on why this resonates with the target audience
 
@@ -145,6 +199,7 @@ Format as JSON array:
   {
     "concept": "Brief post concept",
     "trend_source": "Source: specific trend that inspired this",
+    "source_ref": "news:2",
     "relevance_score": 0.8,
     "business_benefit": "Why this resonates with the target audience"
   }
@@ -163,13 +218,19 @@ function parsePostIdeasFromResponse(content: string, trendsData: TrendData): Pos
 
     const ideas = JSON.parse(jsonMatch[0]);
 
-    return ideas.map((idea: any, index: number) => ({
-      id: `idea_${index + 1}`,
-      concept: idea.concept || `Business idea ${index + 1}`,
-      trend_source: idea.trend_source || "General trend analysis",
-      relevance_score: idea.relevance_score || 0.5,
-      business_benefit: idea.business_benefit || "Provides engagement opportunity"
-    }))
+    return ideas.map((idea: any, index: number) => {
+      // The model's label first; an idea that only quoted a headline is matched on it
+      const source = resolveSourceRef(idea.source_ref, trendsData) ?? matchNewsHeadline(idea.trend_source || "", trendsData);
+      return {
+        id: `idea_${index + 1}`,
+        concept: idea.concept || `Business idea ${index + 1}`,
+        trend_source: idea.trend_source || "General trend analysis",
+        relevance_score: idea.relevance_score || 0.5,
+        business_benefit: idea.business_benefit || "Provides engagement opportunity",
+        source,
+        facts: sourceFacts(source, trendsData)
+      };
+    })
       .sort((a: PostIdea, b: PostIdea) => b.relevance_score - a.relevance_score)
       .slice(0, 8);
   } catch (error) {
@@ -188,7 +249,7 @@ function getFallbackPostIdeas(trendsData: TrendData): PostIdea[] {
     "One plumber got 18 leads in 30 days with AI",
   ];
 
-  const fallbackIdeas = fallbackConcepts.map((concept, index) => ({
+  const fallbackIdeas: PostIdea[] = fallbackConcepts.map((concept, index) => ({
     id: `idea_${index + 1}`,
     concept,
     trend_source: "General: Business & tech trends",
@@ -199,15 +260,57 @@ function getFallbackPostIdeas(trendsData: TrendData): PostIdea[] {
   // Upgrade with real trend data if available
   if (trendsData.news.length > 0 && fallbackIdeas.length > 0) {
     fallbackIdeas[0].trend_source = `News: ${trendsData.news[0].headline?.substring(0, 60)}...`;
+    fallbackIdeas[0].source = toSourceRef("news", 0, trendsData);
+    fallbackIdeas[0].facts = trendsData.news[0].facts;
   }
 
   if (trendsData.google.length > 0 && fallbackIdeas.length > 1) {
     fallbackIdeas[1].trend_source = `Google Trends: ${trendsData.google[0]}`;
+    fallbackIdeas[1].source = toSourceRef("google", 0, trendsData);
   }
 
   return fallbackIdeas;
 }
 
+// "news:2" (or "[news:2]") → a reference to that item, undefined when it names nothing
+export function resolveSourceRef(label: unknown, trendsData: TrendData): SourceRef | undefined {
+  const match = typeof label === "string" ? /^\[?\s*(\w+):(\d+)\s*\]?$/.exec(label.trim()) : null;
+  if (!match) return undefined;
+  const type = match[1].toLowerCase() as keyof TrendData;
+  const index = Number(match[2]) - 1;
+  if (!SOURCE_TYPES.includes(type) || index < 0 || index >= trendsData[type].length) return undefined;
+  return toSourceRef(type, index, trendsData);
+}
+
+function toSourceRef(type: keyof TrendData, index: number, trendsData: TrendData): SourceRef {
+  const item: any = trendsData[type][index];
+  const id = `${type}:${index + 1}`;
+  switch (type) {
+    case "news": return { type, id, url: item.url, headline: item.headline };
+    case "reddit": return { type, id, url: item.url, headline: item.title };
+    case "coingecko": return { type, id, headline: `${item.name} (${item.symbol})` };
+    default: return { type, id, headline: String(item) };
+  }
+}
+
+// The news article an idea's trend_source quotes, if any
+function matchNewsHeadline(trendSource: string, trendsData: TrendData): SourceRef | undefined {
+  const quoted = trendSource.replace(/^[\w\s&]+:\s*/, "");
+  let best: { index: number; overlap: number } | undefined;
+  for (let index = 0; index < trendsData.news.length; index++) {
+    const headline = trendsData.news[index].headline;
+    if (!headline) continue;
+    const overlap = headlineOverlap(quoted, headline);
+    if (overlap >= NEWS_MATCH_THRESHOLD && (!best || overlap > best.overlap)) best = { index, overlap };
+  }
+  return best ? toSourceRef("news", best.index, trendsData) : undefined;
+}
+
+function sourceFacts(source: SourceRef | undefined, trendsData: TrendData): string[] | undefined {
+  if (source?.type !== "news") return undefined;
+  return trendsData.news[Number(source.id.split(":")[1]) - 1]?.facts;
+}
+
 function getPostTypeGuidelines(postType: string): {
   strategy: string;
   requirements: string;
@@ -242,20 +345,31 @@ function formatTrendsWithContext(trendsData: TrendData): string {
   let formatted = '';
 
   if (trendsData.google.length > 0) {
-    formatted += `Google Search Trends:\n${trendsData.google.join(', ')}\n\n`;
+    formatted += `Google Search Trends:\n${trendsData.google.map((q, i) => `[google:${i + 1}] ${q}`).join(', ')}\n\n`;
   }
 
   if (trendsData.reddit.length > 0) {
-    formatted += `Relevant Business Discussions:\n${trendsData.reddit.map((d: any) => `"${d.title}" (${d.comments} comments, ${d.score} score)`).join('; ')}\n\n`;
+    formatted += `Relevant Business Discussions:\n${trendsData.reddit.map((d: any, i: number) => `[reddit:${i + 1}] "${d.title}" (${d.comments} comments, ${d.score} score)`).join('; ')}\n\n`;
   }
 
   if (trendsData.news.length > 0) {
-    formatted += `Industry News:\n${trendsData.news.map((a: any) => a.headline || a.description).join('; ')}\n\n`;
+    formatted += `Industry News:\n${trendsData.news.map((a: any, i: number) => `[news:${i + 1}] ${a.headline || a.description}${a.sources > 1 ? ` (${a.sources} sources)` : ''}`).join('; ')}\n\n`;
   }
 
   if (trendsData.xcom.length > 0) {
-    formatted += `Social Trends:\n${trendsData.xcom.join(', ')}\n\n`;
+    formatted += `Social Trends:\n${trendsData.xcom.map((t, i) => `[xcom:${i + 1}] ${t}`).join(', ')}\n\n`;
+  }
+
+  if (trendsData.coingecko.length > 0) {
+    formatted += `Trending Coins (CoinGecko, 24h price move):\n${trendsData.coingecko.map((coin, i) => `[coingecko:${i + 1}] ${formatCoinMove(coin)}`).join('; ')}\n\n`;
   }
 
   return formatted || "No trends available";
 }
+
+function formatCoinMove(coin: TrendingCoin): string {
+  const change = coin.priceChange24h;
+  const move = `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+  const rank = coin.rank > 0 ? `, mcap rank #${coin.rank}` : '';
+  return `${coin.name} (${coin.symbol}) ${move}${rank}`;
+}
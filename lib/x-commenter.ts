@@ -2,12 +2,14 @@ import { config } from "../config";
 import { TwitterApi } from "twitter-api-v2";
 import { getClient } from "./x-poster";
 import {
-  getTodayCommentCount,
+  getCommentCountLast24h,
   hasRepliedToTweet,
-  markTweetReplied,
-  logComment,
-  incrementCommentCount,
+  beginCommentAttempt,
+  markCommentPublished,
+  markCommentFailed,
+  logDryRunComment,
 } from "./x-db";
+import { businessTimeZone, zonedParts } from "./time";
 import { makeRequest } from "./claude";
 
 let twitterApiIoClient: TwitterApi | null = null;
@@ -71,7 +73,7 @@ function filterTweets(tweets: SearchResult[]): SearchResult[] {
 
   return tweets.filter((tweet) => {
     // Skip if we've already replied to this tweet
-    if (hasRepliedToTweet(tweet.id)) {
+    if (hasRepliedToTweet(tweet.id, config.x.dryRun)) {
       return false;
     }
 
@@ -129,6 +131,7 @@ export interface CommentResult {
   originalTweetId?: string;
   error?: string;
   dryRun?: boolean;
+  duplicate?: boolean;           // another run already replied to this tweet
 }
 
 // Post a reply to a tweet
@@ -137,18 +140,26 @@ async function postReply(originalTweetId: string, replyText: string): Promise<Co
 
   if (isDryRun) {
     console.log(`[DRY RUN] Would reply to ${originalTweetId}: ${replyText.substring(0, 100)}...`);
-    logComment({
-      tweet_id: "dry_run_" + Date.now(),
+    logDryRunComment({
       reply_to_tweet_id: originalTweetId,
       reply_to_user: "unknown",
       text: replyText,
       search_query: "dry_run",
-      posted_at: new Date().toISOString(),
-      status: "dry_run",
     });
     return { success: true, originalTweetId, dryRun: true };
   }
 
+  const ledger = beginCommentAttempt({
+    reply_to_tweet_id: originalTweetId,
+    reply_to_user: "unknown",
+    text: replyText,
+    search_query: "unknown",
+  });
+  if ("duplicate" in ledger) {
+    console.log(`[SKIP] Already replied to ${originalTweetId} (comment #${ledger.duplicate.id})`);
+    return { success: true, originalTweetId, tweetId: ledger.duplicate.tweet_id ?? undefined, duplicate: true };
+  }
+
   try {
     const twitter = getClient();
     const tweet = await twitter.v2.tweet(replyText, {
@@ -157,58 +168,41 @@ async function postReply(originalTweetId: string, replyText: string): Promise<Co
 
     console.log(`Reply posted successfully: ${tweet.data.id} (reply to ${originalTweetId})`);
 
-    logComment({
-      tweet_id: tweet.data.id,
-      reply_to_tweet_id: originalTweetId,
-      reply_to_user: "unknown",
-      text: replyText,
-      search_query: "unknown",
-      posted_at: new Date().toISOString(),
-      status: "success",
-    });
-
-    markTweetReplied(originalTweetId);
-    incrementCommentCount();
+    markCommentPublished(ledger.id, tweet.data.id);
 
     return { success: true, tweetId: tweet.data.id, originalTweetId };
   } catch (error: any) {
     const errorMessage = error.message || "Unknown error";
     console.error(`Failed to post reply: ${errorMessage}`);
 
-    logComment({
-      tweet_id: "failed_" + Date.now(),
-      reply_to_tweet_id: originalTweetId,
-      reply_to_user: "unknown",
-      text: replyText,
-      search_query: "unknown",
-      posted_at: new Date().toISOString(),
-      status: "failed",
-    });
+    markCommentFailed(ledger.id, errorMessage);
 
     return { success: false, originalTweetId, error: errorMessage };
   }
 }
 
 // Main comment function - searches and replies
-export async function runCommentFlow(): Promise<{ success: boolean; commentsPosted: number; errors: string[] }> {
+export async function runCommentFlow(): Promise<{ success: boolean; commentsPosted: number; skipped: number; errors: string[] }> {
   // Skip if twitterApiIo is disabled
   if (!config.twitterApiIo?.enabled) {
     console.log(`[SKIP] twitterApiIo disabled in config`);
-    return { success: true, commentsPosted: 0, errors: [] };
+    return { success: true, commentsPosted: 0, skipped: 0, errors: [] };
   }
 
   const errors: string[] = [];
   let commentsPosted = 0;
+  // Tweets the ledger says were already answered — a re-run over them is not an error
+  let skipped = 0;
 
-  // Check if we can post comments today
-  const currentCount = getTodayCommentCount();
+  // Check if we can post comments — the cap covers the last 24 hours
+  const currentCount = getCommentCountLast24h();
   if (currentCount >= config.x.commentsPerDay) {
-    console.log(`[SKIP] Daily comment cap reached (${currentCount}/${config.x.commentsPerDay})`);
-    return { success: true, commentsPosted: 0, errors: [] };
+    console.log(`[SKIP] Daily comment cap reached (${currentCount}/${config.x.commentsPerDay} in the last 24h)`);
+    return { success: true, commentsPosted: 0, skipped: 0, errors: [] };
   }
 
   const commentsRemaining = config.x.commentsPerDay - currentCount;
-  console.log(`Searching for tweets to comment on (${commentsRemaining} remaining today)...`);
+  console.log(`Searching for tweets to comment on (${commentsRemaining} remaining in the last 24h)...`);
 
   // Build search queries from config
   let queries: string[] = [
@@ -217,8 +211,9 @@ export async function runCommentFlow(): Promise<{ success: boolean; commentsPost
   ];
 
   // OPTIMIZATION: Rotate queries based on time of day to spread usage
-  // This ensures we don't always use the same queries, reducing API load per query
-  const hourOfDay = new Date().getHours();
+  // This ensures we don't always use the same queries, reducing API load per query.
+  // The hour is the business's local hour (business.timezone), not the server's
+  const hourOfDay = zonedParts(new Date(), businessTimeZone()).hour;
   const rotationIndex = hourOfDay % Math.max(1, Math.ceil(queries.length / 4));
   // Rotate: take a slice of 4 queries, wrapped around
   if (queries.length > 4) {
@@ -268,7 +263,7 @@ export async function runCommentFlow(): Promise<{ success: boolean; commentsPost
   // Generate and post replies
   for (const tweet of candidates) {
     // Check daily cap again
-    if (getTodayCommentCount() >= config.x.commentsPerDay) {
+    if (getCommentCountLast24h() >= config.x.commentsPerDay) {
       console.log(`[SKIP] Daily comment cap reached mid-run`);
       break;
     }
@@ -281,20 +276,22 @@ export async function runCommentFlow(): Promise<{ success: boolean; commentsPost
 
     const result = await postReply(tweet.id, replyText);
 
-    if (result.success) {
-      commentsPosted++;
-    } else {
+    if (!result.success) {
       errors.push(result.error || "Unknown error");
+    } else if (result.duplicate) {
+      skipped++;
+    } else {
+      commentsPosted++;
     }
 
     // Small delay between posts to avoid rate limits
     await new Promise((resolve) => setTimeout(resolve, 1000));
   }
 
-  console.log(`\nComment flow complete: ${commentsPosted} comments posted`);
+  console.log(`\nComment flow complete: ${commentsPosted} comments posted, ${skipped} already replied to`);
   if (errors.length > 0) {
     console.log(`Errors: ${errors.join(", ")}`);
   }
 
-  return { success: true, commentsPosted, errors };
+  return { success: true, commentsPosted, skipped, errors };
 }
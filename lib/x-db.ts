@@ -1,13 +1,15 @@
 import { Database } from "bun:sqlite";
-import path from "path";
-
-const DB_PATH = path.join(process.cwd(), "x_post_data.db");
+import { mkdirSync } from "fs";
+import { createHash } from "crypto";
+import { profilePath } from "./profile";
 
 let db: Database | null = null;
 
 export function getDb(): Database {
   if (!db) {
-    db = new Database(DB_PATH);
+    // Opened lazily so --profile has been applied before the path is resolved
+    mkdirSync(profilePath(), { recursive: true });
+    db = new Database(profilePath("x_post_data.db"));
     initDb();
   }
   return db;
@@ -32,6 +34,16 @@ function initDb(): void {
   // Add platform column to existing posts table (safe for existing DBs)
   try { db.exec(`ALTER TABLE posts ADD COLUMN platform TEXT DEFAULT 'twitter'`); } catch {};
 
+  // Thread columns — every tweet in a thread shares thread_id, ordered by thread_position
+  try { db.exec(`ALTER TABLE posts ADD COLUMN thread_id TEXT`); } catch {};
+  try { db.exec(`ALTER TABLE posts ADD COLUMN thread_position INTEGER`); } catch {};
+
+  // Content strategy the post was generated with — lets engagement be attributed to it
+  try { db.exec(`ALTER TABLE posts ADD COLUMN strategy TEXT`); } catch {};
+
+  // Article / discussion the post reacts to — cited inline, in a reply or as "link in bio"
+  try { db.exec(`ALTER TABLE posts ADD COLUMN source_url TEXT`); } catch {};
+
   // comments table
   db.exec(`
     CREATE TABLE IF NOT EXISTS comments (
@@ -46,20 +58,37 @@ function initDb(): void {
     )
   `);
 
-  // daily_counts table
+  // Daily caps are counted from posts / comments (rolling 24h); the old daily_counts
+  // counter table is no longer written and is left alone in existing DBs
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_posts_platform_posted_at ON posts (platform, posted_at)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_comments_posted_at ON comments (posted_at)`);
+
+  // Posting ledger columns. The first time they're added, older rows are converted:
+  // "success" becomes "published" and the synthetic dry_run_/failed_ IDs are cleared.
+  let ledgerAdded = false;
+  try { db.exec(`ALTER TABLE posts ADD COLUMN idempotency_key TEXT`); ledgerAdded = true; } catch {};
+  try { db.exec(`ALTER TABLE posts ADD COLUMN error TEXT`); } catch {};
+  try { db.exec(`ALTER TABLE comments ADD COLUMN idempotency_key TEXT`); } catch {};
+  try { db.exec(`ALTER TABLE comments ADD COLUMN error TEXT`); } catch {};
+  if (ledgerAdded) {
+    for (const table of ["posts", "comments"]) {
+      db.exec(`UPDATE ${table} SET status = 'published' WHERE status = 'success'`);
+      db.exec(`UPDATE ${table} SET tweet_id = NULL WHERE status IN ('dry_run', 'failed')`);
+    }
+  }
+
+  // One live row per key: a second attempt at the same text can't start while the first
+  // is in flight or after it was published. Failed and dry-run rows don't hold the key.
   db.exec(`
-    CREATE TABLE IF NOT EXISTS daily_counts (
-      date TEXT PRIMARY KEY,
-      posts_count INTEGER DEFAULT 0,
-      comments_count INTEGER DEFAULT 0,
-      fb_posts_count INTEGER DEFAULT 0
-    )
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_posts_idempotency_key ON posts (idempotency_key)
+    WHERE status IN ('attempted', 'published')
+  `);
+  db.exec(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_comments_idempotency_key ON comments (idempotency_key)
+    WHERE status IN ('attempted', 'published')
   `);
 
-  // Add fb_posts_count column to existing daily_counts table (safe for existing DBs)
-  try { db.exec(`ALTER TABLE daily_counts ADD COLUMN fb_posts_count INTEGER DEFAULT 0`); } catch {};
-
-  // Track replied tweets to avoid duplicate replies
+  // Legacy record of replied tweets — replies are tracked in comments now, old rows still count
   db.exec(`
     CREATE TABLE IF NOT EXISTS replied_tweets (
       id INTEGER PRIMARY KEY,
@@ -67,118 +96,661 @@ function initDb(): void {
       replied_at TEXT
     )
   `);
-}
 
-function getToday(): string {
-  return new Date().toISOString().split("T")[0];
+  // Post queue — generated content waiting for human approval before publishing
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS queue (
+      id INTEGER PRIMARY KEY,
+      platform TEXT,
+      text TEXT,
+      image_path TEXT,
+      idea TEXT,
+      strategy TEXT,
+      status TEXT DEFAULT 'pending',
+      scheduled_at TEXT,
+      created_at TEXT,
+      updated_at TEXT,
+      post_id TEXT,
+      last_error TEXT
+    )
+  `);
+  try { db.exec(`ALTER TABLE queue ADD COLUMN source_url TEXT`); } catch {};
+
+  // Engagement snapshots — one row per post per collect-metrics run (time series).
+  // Unified columns across platforms:
+  //   likes   — X likes / Facebook reactions / Instagram likes
+  //   reposts — X retweets + quotes / Facebook shares
+  //   replies — X replies / Facebook + Instagram comments
+  //   impressions — X only (NULL elsewhere)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS post_metrics (
+      id INTEGER PRIMARY KEY,
+      post_id INTEGER,
+      platform TEXT,
+      external_id TEXT,
+      collected_at TEXT,
+      likes INTEGER,
+      reposts INTEGER,
+      replies INTEGER,
+      impressions INTEGER
+    )
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_post_metrics_post ON post_metrics (post_id, collected_at)`);
+
+  // Daemon posting slots — one row per planned post, so a restart knows what already ran
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS daemon_slots (
+      id INTEGER PRIMARY KEY,
+      platform TEXT,
+      date TEXT,
+      slot_index INTEGER,
+      scheduled_at TEXT,
+      status TEXT DEFAULT 'pending',
+      run_id TEXT,
+      started_at TEXT,
+      finished_at TEXT,
+      error TEXT,
+      UNIQUE (platform, date, slot_index)
+    )
+  `);
+  // Ledger key of the post the slot is publishing — recovery after a crash looks it up in posts
+  try { db.exec(`ALTER TABLE daemon_slots ADD COLUMN post_key TEXT`); } catch {};
+  // Runs of the slot so far — a failed one is retried later in its window until the limit
+  try { db.exec(`ALTER TABLE daemon_slots ADD COLUMN attempts INTEGER DEFAULT 0`); } catch {};
+
+  // Last time each daemon cron job fired — keeps a restart from running it twice
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS daemon_jobs (
+      name TEXT PRIMARY KEY,
+      last_run_at TEXT
+    )
+  `);
 }
 
-export function getTodayPostCount(): number {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Caps are rolling 24-hour windows over what was actually logged — a thread counts once,
+// dry runs and failures not at all. platform matches posts.platform ("twitter" covers threads).
+export function getPostCountLast24h(platform: string, now: Date = new Date()): number {
   const db = getDb();
-  const today = getToday();
-  const row = db.prepare("SELECT posts_count FROM daily_counts WHERE date = ?").get(today) as { posts_count: number } | undefined;
-  return row?.posts_count ?? 0;
+  const row = db.prepare(`
+    SELECT COUNT(*) AS count FROM posts
+    WHERE platform = ? AND status = 'published' AND posted_at >= ?
+      AND (thread_position IS NULL OR thread_position = 1)
+  `).get(platform, new Date(now.getTime() - DAY_MS).toISOString()) as { count: number };
+  return row.count;
 }
 
-export function getTodayCommentCount(): number {
+export function getCommentCountLast24h(now: Date = new Date()): number {
   const db = getDb();
-  const today = getToday();
-  const row = db.prepare("SELECT comments_count FROM daily_counts WHERE date = ?").get(today) as { comments_count: number } | undefined;
-  return row?.comments_count ?? 0;
+  const row = db.prepare(`
+    SELECT COUNT(*) AS count FROM comments WHERE status = 'published' AND posted_at >= ?
+  `).get(new Date(now.getTime() - DAY_MS).toISOString()) as { count: number };
+  return row.count;
 }
 
-export function incrementPostCount(): void {
+// === POSTING LEDGER ===
+// Every post and comment is one row: attempted → published | failed. Dry runs are written
+// straight as dry_run. The external ID (tweet_id) is only set once something is published.
+
+export type LedgerStatus = "attempted" | "dry_run" | "failed" | "published";
+
+export const LEDGER_STATUSES: LedgerStatus[] = ["attempted", "dry_run", "failed", "published"];
+
+// Same parts → same key, whatever the whitespace. Posters key on platform + text.
+export function idempotencyKey(...parts: (string | number)[]): string {
+  const normalized = parts.map(part => String(part).trim().replace(/\s+/g, " "));
+  return createHash("sha256").update(normalized.join("\u0000")).digest("hex");
+}
+
+export interface PostRecord {
+  tweet_id: string | null;       // tweet / Facebook post / Instagram media ID
+  text: string;
+  image_path: string | null;
+  posted_at: string;             // when attempted, then when published
+  status: LedgerStatus;
+  platform?: string;
+  thread_id?: string | null;
+  thread_position?: number | null;
+  strategy?: string | null;
+  idempotency_key?: string | null;
+  error?: string | null;
+  source_url?: string | null;
+}
+
+export interface PostRow extends PostRecord {
+  id: number;
+  platform: string;
+}
+
+export interface PostAttempt {
+  platform: string;
+  text: string;
+  image_path: string | null;
+  strategy?: string;
+  thread_id?: string;
+  thread_position?: number;
+  source_url?: string | null;
+}
+
+// Opens an "attempted" row. When the key is already held — published, or an attempt that
+// never finished — nothing is written and that row comes back as the duplicate instead.
+export function beginPostAttempt(attempt: PostAttempt, key: string): { id: number } | { duplicate: PostRow } {
   const db = getDb();
-  const today = getToday();
-  db.prepare(`
-    INSERT INTO daily_counts (date, posts_count, comments_count)
-    VALUES (?, 1, 0)
-    ON CONFLICT(date) DO UPDATE SET posts_count = posts_count + 1
-  `).run(today);
+  const result = insertPost(attempt, "attempted", key);
+  if (result.changes === 0) {
+    const duplicate = db.prepare(`
+      SELECT * FROM posts WHERE idempotency_key = ? AND status IN ('attempted', 'published')
+    `).get(key) as PostRow;
+    return { duplicate };
+  }
+  return { id: Number(result.lastInsertRowid) };
 }
 
-export function incrementCommentCount(): void {
+export function markPostPublished(id: number, externalId: string): void {
   const db = getDb();
-  const today = getToday();
-  db.prepare(`
-    INSERT INTO daily_counts (date, posts_count, comments_count)
-    VALUES (?, 0, 1)
-    ON CONFLICT(date) DO UPDATE SET comments_count = comments_count + 1
-  `).run(today);
+  db.prepare("UPDATE posts SET status = 'published', tweet_id = ?, posted_at = ?, error = NULL WHERE id = ?")
+    .run(externalId, new Date().toISOString(), id);
 }
 
-export function getTodayFbPostCount(): number {
+export function markPostFailed(id: number, error: string): void {
   const db = getDb();
-  const today = getToday();
-  const row = db.prepare("SELECT fb_posts_count FROM daily_counts WHERE date = ?").get(today) as { fb_posts_count: number } | undefined;
-  return row?.fb_posts_count ?? 0;
+  db.prepare("UPDATE posts SET status = 'failed', error = ? WHERE id = ?").run(error, id);
+}
+
+export function logDryRunPost(attempt: PostAttempt): void {
+  insertPost(attempt, "dry_run", null);
 }
 
-export function incrementFbPostCount(): void {
+function insertPost(attempt: PostAttempt, status: LedgerStatus, key: string | null): { changes: number; lastInsertRowid: number | bigint } {
   const db = getDb();
-  const today = getToday();
-  db.prepare(`
-    INSERT INTO daily_counts (date, posts_count, comments_count, fb_posts_count)
-    VALUES (?, 0, 0, 1)
-    ON CONFLICT(date) DO UPDATE SET fb_posts_count = fb_posts_count + 1
-  `).run(today);
+  return db.prepare(`
+    INSERT OR IGNORE INTO posts (tweet_id, text, image_path, posted_at, status, platform, thread_id, thread_position, strategy, idempotency_key, source_url)
+    VALUES (NULL, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    attempt.text,
+    attempt.image_path,
+    new Date().toISOString(),
+    status,
+    attempt.platform,
+    attempt.thread_id ?? null,
+    attempt.thread_position ?? null,
+    attempt.strategy ?? null,
+    key,
+    attempt.source_url ?? null
+  );
 }
 
-export interface PostRecord {
-  tweet_id: string;
+export interface CommentRecord {
+  tweet_id: string | null;       // our reply, once published
+  reply_to_tweet_id: string;
+  reply_to_user: string;
   text: string;
-  image_path: string | null;
+  search_query: string;
   posted_at: string;
-  status: string;
-  platform?: string;
+  status: LedgerStatus;
+  idempotency_key?: string | null;
+  error?: string | null;
 }
 
-export function logPost(post: PostRecord): void {
-  const db = getDb();
-  db.prepare(`
-    INSERT INTO posts (tweet_id, text, image_path, posted_at, status, platform)
-    VALUES (?, ?, ?, ?, ?, ?)
-  `).run(post.tweet_id, post.text, post.image_path, post.posted_at, post.status, post.platform || "twitter");
+export interface CommentRow extends CommentRecord {
+  id: number;
 }
 
-export interface CommentRecord {
-  tweet_id: string;
+export interface CommentAttempt {
   reply_to_tweet_id: string;
   reply_to_user: string;
   text: string;
   search_query: string;
+}
+
+// Keyed on the tweet being replied to — one reply per tweet, however often the flow reruns
+export function beginCommentAttempt(attempt: CommentAttempt): { id: number } | { duplicate: CommentRow } {
+  const db = getDb();
+  const key = idempotencyKey("reply", attempt.reply_to_tweet_id);
+  const result = insertComment(attempt, "attempted", key);
+  if (result.changes === 0) {
+    const duplicate = db.prepare(`
+      SELECT * FROM comments WHERE idempotency_key = ? AND status IN ('attempted', 'published')
+    `).get(key) as CommentRow;
+    return { duplicate };
+  }
+  return { id: Number(result.lastInsertRowid) };
+}
+
+export function markCommentPublished(id: number, replyTweetId: string): void {
+  const db = getDb();
+  db.prepare("UPDATE comments SET status = 'published', tweet_id = ?, posted_at = ?, error = NULL WHERE id = ?")
+    .run(replyTweetId, new Date().toISOString(), id);
+}
+
+export function markCommentFailed(id: number, error: string): void {
+  const db = getDb();
+  db.prepare("UPDATE comments SET status = 'failed', error = ? WHERE id = ?").run(error, id);
+}
+
+export function logDryRunComment(attempt: CommentAttempt): void {
+  insertComment(attempt, "dry_run", null);
+}
+
+function insertComment(attempt: CommentAttempt, status: LedgerStatus, key: string | null): { changes: number; lastInsertRowid: number | bigint } {
+  const db = getDb();
+  return db.prepare(`
+    INSERT OR IGNORE INTO comments (tweet_id, reply_to_tweet_id, reply_to_user, text, search_query, posted_at, status, idempotency_key)
+    VALUES (NULL, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    attempt.reply_to_tweet_id,
+    attempt.reply_to_user,
+    attempt.text,
+    attempt.search_query,
+    new Date().toISOString(),
+    status,
+    key
+  );
+}
+
+// A reply that was published or is still in flight. Dry runs pass includeDryRuns so a
+// dry run doesn't keep picking the tweets it already "replied" to.
+export function hasRepliedToTweet(originalTweetId: string, includeDryRuns: boolean = false): boolean {
+  const db = getDb();
+  const statuses = includeDryRuns ? "'attempted', 'published', 'dry_run'" : "'attempted', 'published'";
+  const row = db.prepare(`
+    SELECT 1 FROM comments WHERE reply_to_tweet_id = ? AND status IN (${statuses})
+    UNION ALL
+    SELECT 1 FROM replied_tweets WHERE original_tweet_id = ?
+    LIMIT 1
+  `).get(originalTweetId, originalTweetId);
+  return !!row;
+}
+
+export interface LedgerSummary {
+  posts: Record<string, Record<LedgerStatus, number>>;   // by platform
+  comments: Record<LedgerStatus, number>;
+}
+
+// Posts (a thread counts once) and comments by status since the given time
+export function getLedgerSummary(sinceIso: string): LedgerSummary {
+  const db = getDb();
+  const empty = () => Object.fromEntries(LEDGER_STATUSES.map(status => [status, 0])) as Record<LedgerStatus, number>;
+
+  const posts: Record<string, Record<LedgerStatus, number>> = {};
+  const postRows = db.prepare(`
+    SELECT platform, status, COUNT(*) AS count FROM posts
+    WHERE posted_at >= ? AND (thread_position IS NULL OR thread_position = 1)
+    GROUP BY platform, status
+  `).all(sinceIso) as { platform: string; status: LedgerStatus; count: number }[];
+  for (const row of postRows) {
+    posts[row.platform] ??= empty();
+    posts[row.platform][row.status] = row.count;
+  }
+
+  const comments = empty();
+  const commentRows = db.prepare(`
+    SELECT status, COUNT(*) AS count FROM comments WHERE posted_at >= ? GROUP BY status
+  `).all(sinceIso) as { status: LedgerStatus; count: number }[];
+  for (const row of commentRows) comments[row.status] = row.count;
+
+  return { posts, comments };
+}
+
+// === POST QUEUE ===
+//   pending   → waiting for review
+//   approved  → publish on the next publish-due run
+//   scheduled → approved, publish once scheduled_at has passed
+//   rejected  → never published
+//   posted    → published, post_id set
+
+export type QueueStatus = "pending" | "approved" | "rejected" | "scheduled" | "posted";
+
+export const QUEUE_STATUSES: QueueStatus[] = ["pending", "approved", "rejected", "scheduled", "posted"];
+
+export interface QueueItem {
+  id: number;
+  platform: string;
+  text: string;
+  image_path: string | null;
+  idea: string | null;
+  strategy: string | null;
+  status: QueueStatus;
+  scheduled_at: string | null;
+  created_at: string;
+  updated_at: string;
+  post_id: string | null;
+  last_error: string | null;
+  source_url: string | null;
+}
+
+export function enqueuePost(item: {
+  platform: string;
+  text: string;
+  image_path: string | null;
+  idea?: string;
+  strategy?: string;
+  scheduled_at?: string | null;
+  source_url?: string | null;
+}): number {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const result = db.prepare(`
+    INSERT INTO queue (platform, text, image_path, idea, strategy, status, scheduled_at, created_at, updated_at, source_url)
+    VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, ?, ?)
+  `).run(item.platform, item.text, item.image_path, item.idea ?? null, item.strategy ?? null, item.scheduled_at ?? null, now, now, item.source_url ?? null);
+  return Number(result.lastInsertRowid);
+}
+
+export function getQueueItem(id: number): QueueItem | null {
+  const db = getDb();
+  return (db.prepare("SELECT * FROM queue WHERE id = ?").get(id) as QueueItem | undefined) ?? null;
+}
+
+export function listQueue(status?: QueueStatus): QueueItem[] {
+  const db = getDb();
+  if (status) {
+    return db.prepare("SELECT * FROM queue WHERE status = ? ORDER BY id").all(status) as QueueItem[];
+  }
+  return db.prepare("SELECT * FROM queue ORDER BY id").all() as QueueItem[];
+}
+
+export function updateQueueItem(
+  id: number,
+  changes: Partial<Pick<QueueItem, "text" | "image_path" | "status" | "scheduled_at" | "post_id" | "last_error">>
+): void {
+  const db = getDb();
+  const fields = Object.keys(changes) as (keyof typeof changes)[];
+  if (fields.length === 0) return;
+  const assignments = fields.map(f => `${f} = ?`).join(", ");
+  const values = fields.map(f => changes[f] ?? null);
+  db.prepare(`UPDATE queue SET ${assignments}, updated_at = ? WHERE id = ?`)
+    .run(...values, new Date().toISOString(), id);
+}
+
+// Approved items, plus scheduled items whose time has come — oldest first
+export function getDueQueueItems(now: Date = new Date()): QueueItem[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT * FROM queue
+    WHERE status = 'approved'
+       OR (status = 'scheduled' AND scheduled_at <= ?)
+    ORDER BY COALESCE(scheduled_at, created_at), id
+  `).all(now.toISOString()) as QueueItem[];
+}
+
+// === ENGAGEMENT METRICS ===
+
+export interface PublishedPost {
+  id: number;
+  tweet_id: string;
+  platform: string;
   posted_at: string;
-  status: string;
 }
 
-export function logComment(comment: CommentRecord): void {
+// Published posts since the given time (only these have an external ID)
+export function getPublishedPostsSince(sinceIso: string): PublishedPost[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT id, tweet_id, platform, posted_at FROM posts
+    WHERE status = 'published' AND posted_at >= ?
+    ORDER BY posted_at
+  `).all(sinceIso) as PublishedPost[];
+}
+
+export interface PostMetricsRecord {
+  post_id: number;
+  platform: string;
+  external_id: string;
+  collected_at: string;
+  likes: number | null;
+  reposts: number | null;
+  replies: number | null;
+  impressions: number | null;
+}
+
+export function logPostMetrics(metrics: PostMetricsRecord): void {
   const db = getDb();
   db.prepare(`
-    INSERT INTO comments (tweet_id, reply_to_tweet_id, reply_to_user, text, search_query, posted_at, status)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO post_metrics (post_id, platform, external_id, collected_at, likes, reposts, replies, impressions)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
-    comment.tweet_id,
-    comment.reply_to_tweet_id,
-    comment.reply_to_user,
-    comment.text,
-    comment.search_query,
-    comment.posted_at,
-    comment.status
+    metrics.post_id,
+    metrics.platform,
+    metrics.external_id,
+    metrics.collected_at,
+    metrics.likes,
+    metrics.reposts,
+    metrics.replies,
+    metrics.impressions
   );
 }
 
-export function hasRepliedToTweet(originalTweetId: string): boolean {
+// Newest first, optionally for one platform or status — backs GET /posts in serve mode.
+// Dry runs are left out unless asked for by status or includeDryRuns.
+export function listPosts(options: { platform?: string; status?: LedgerStatus; includeDryRuns?: boolean; limit?: number } = {}): PostRow[] {
   const db = getDb();
-  const row = db.prepare("SELECT 1 FROM replied_tweets WHERE original_tweet_id = ?").get(originalTweetId);
-  return !!row;
+  const where: string[] = [];
+  const params: (string | number)[] = [];
+  if (options.platform) {
+    where.push("platform = ?");
+    params.push(options.platform);
+  }
+  if (options.status) {
+    where.push("status = ?");
+    params.push(options.status);
+  } else if (!options.includeDryRuns) {
+    where.push("status != 'dry_run'");
+  }
+  params.push(options.limit ?? 50);
+  return db.prepare(`
+    SELECT * FROM posts ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+    ORDER BY posted_at DESC, id DESC LIMIT ?
+  `).all(...params) as PostRow[];
+}
+
+export interface HistoryPost {
+  source: "post" | "queue";
+  id: number;
+  platform: string;
+  text: string;
+  posted_at: string;
+}
+
+// Every post we've published plus queued posts still waiting to go out. Dry runs are left
+// out — otherwise a dry run would block the real post of the same content. Thread tweets are
+// stitched back into one text, in thread order, so a thread compares as a whole; the X
+// "Source: <url>" link replies are not part of what was written and are skipped.
+export function getPostHistory(): HistoryPost[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT id, platform, text, posted_at, thread_id, thread_position FROM posts
+    WHERE status = 'published'
+      AND NOT (source_url IS NOT NULL AND thread_position > 1 AND text = 'Source: ' || source_url)
+    ORDER BY id
+  `).all() as { id: number; platform: string; text: string; posted_at: string; thread_id: string | null; thread_position: number | null }[];
+
+  const groups = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const key = row.thread_id ?? `post:${row.id}`;
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+
+  const posts: HistoryPost[] = [...groups.values()].map(group => {
+    group.sort((a, b) => (a.thread_position ?? 0) - (b.thread_position ?? 0) || a.id - b.id);
+    return {
+      source: "post",
+      id: Math.min(...group.map(row => row.id)),
+      platform: group[0].platform,
+      text: group.map(row => row.text).join(" "),
+      posted_at: group.map(row => row.posted_at).sort()[0],
+    };
+  });
+
+  const queued = db.prepare(`
+    SELECT 'queue' AS source, id, platform, text, created_at AS posted_at
+    FROM queue
+    WHERE status IN ('pending', 'approved', 'scheduled')
+  `).all() as HistoryPost[];
+
+  return [...posts, ...queued];
+}
+
+export interface StrategyOutcome {
+  platform: string;
+  strategy: string;
+  posted_at: string;
+  likes: number | null;
+  reposts: number | null;
+  replies: number | null;
+  impressions: number | null;
+}
+
+// Latest metrics snapshot for each published post with a known strategy.
+// Only the first tweet of a thread is counted so a thread is one outcome.
+export function getStrategyOutcomes(postedBeforeIso: string): StrategyOutcome[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT p.platform, p.strategy, p.posted_at, m.likes, m.reposts, m.replies, m.impressions
+    FROM posts p
+    JOIN post_metrics m ON m.id = (
+      SELECT id FROM post_metrics WHERE post_id = p.id ORDER BY collected_at DESC LIMIT 1
+    )
+    WHERE p.status = 'published'
+      AND p.strategy IS NOT NULL
+      AND (p.thread_position IS NULL OR p.thread_position = 1)
+      AND p.posted_at <= ?
+  `).all(postedBeforeIso) as StrategyOutcome[];
+}
+
+// === DAEMON ===
+
+export type DaemonSlotStatus = "pending" | "running" | "done" | "skipped" | "failed" | "missed";
+
+export interface DaemonSlot {
+  id: number;
+  platform: string;
+  date: string;
+  slot_index: number;
+  scheduled_at: string;
+  status: DaemonSlotStatus;
+  run_id: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  error: string | null;
+  post_key: string | null;
+  attempts: number;
+}
+
+// Plans a day's slots once — later calls for the same platform and date are no-ops
+export function createDaemonSlots(platform: string, date: string, scheduledAt: string[]): void {
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO daemon_slots (platform, date, slot_index, scheduled_at, status)
+    VALUES (?, ?, ?, ?, 'pending')
+  `);
+  db.transaction(() => {
+    scheduledAt.forEach((at, index) => insert.run(platform, date, index, at));
+  })();
+}
+
+export function hasDaemonSlots(platform: string, date: string): boolean {
+  const db = getDb();
+  return !!db.prepare("SELECT 1 FROM daemon_slots WHERE platform = ? AND date = ? LIMIT 1").get(platform, date);
+}
+
+export function listDaemonSlots(date: string): DaemonSlot[] {
+  const db = getDb();
+  return db.prepare("SELECT * FROM daemon_slots WHERE date = ? ORDER BY scheduled_at, platform").all(date) as DaemonSlot[];
+}
+
+// Oldest pending slot whose time has come
+export function getDueDaemonSlot(platform: string, nowIso: string): DaemonSlot | null {
+  const db = getDb();
+  return (db.prepare(`
+    SELECT * FROM daemon_slots
+    WHERE platform = ? AND status = 'pending' AND scheduled_at <= ?
+    ORDER BY scheduled_at LIMIT 1
+  `).get(platform, nowIso) as DaemonSlot | undefined) ?? null;
+}
+
+// Marks the slot running before anything is posted. False when another process got there first.
+export function claimDaemonSlot(id: number, runId: string): boolean {
+  const db = getDb();
+  const result = db.prepare(`
+    UPDATE daemon_slots SET status = 'running', run_id = ?, started_at = ?, post_key = NULL, attempts = COALESCE(attempts, 0) + 1
+    WHERE id = ? AND status = 'pending'
+  `).run(runId, new Date().toISOString(), id);
+  return result.changes === 1;
+}
+
+// Back to pending at a later time, keeping the error of the attempt that failed
+export function retryDaemonSlot(id: number, scheduledAt: string, error: string): void {
+  const db = getDb();
+  db.prepare(`
+    UPDATE daemon_slots SET status = 'pending', scheduled_at = ?, error = ?, run_id = NULL, started_at = NULL, post_key = NULL
+    WHERE id = ?
+  `).run(scheduledAt, error, id);
+}
+
+// Recorded right before publishing — a slot that crashes without one never reached the poster
+export function setDaemonSlotPostKey(id: number, key: string): void {
+  const db = getDb();
+  db.prepare("UPDATE daemon_slots SET post_key = ? WHERE id = ?").run(key, id);
+}
+
+export function finishDaemonSlot(id: number, status: DaemonSlotStatus, error: string | null = null): void {
+  const db = getDb();
+  db.prepare("UPDATE daemon_slots SET status = ?, error = ?, finished_at = ? WHERE id = ?")
+    .run(status, error, new Date().toISOString(), id);
+}
+
+// Slots left running by a crash
+export function getRunningDaemonSlots(): DaemonSlot[] {
+  const db = getDb();
+  return db.prepare("SELECT * FROM daemon_slots WHERE status = 'running'").all() as DaemonSlot[];
+}
+
+export function resetDaemonSlot(id: number): void {
+  const db = getDb();
+  db.prepare("UPDATE daemon_slots SET status = 'pending', run_id = NULL, started_at = NULL, post_key = NULL WHERE id = ?").run(id);
+}
+
+// Pending slots from days that are over
+export function markMissedDaemonSlots(beforeDate: string): number {
+  const db = getDb();
+  const result = db.prepare("UPDATE daemon_slots SET status = 'missed' WHERE status = 'pending' AND date < ?").run(beforeDate);
+  return result.changes;
+}
+
+export function getLastDaemonPostAt(platform: string): string | null {
+  const db = getDb();
+  const row = db.prepare(`
+    SELECT MAX(finished_at) AS last FROM daemon_slots WHERE platform = ? AND status = 'done'
+  `).get(platform) as { last: string | null } | undefined;
+  return row?.last ?? null;
+}
+
+// Whether the ledger holds the post with this idempotency key — used to tell a crash before
+// posting from one after. An attempt that never finished counts as posted, since it may
+// have gone out.
+export function hasLedgerPost(key: string): boolean {
+  const db = getDb();
+  return !!db.prepare(`
+    SELECT 1 FROM posts WHERE idempotency_key = ? AND status IN ('attempted', 'published') LIMIT 1
+  `).get(key);
+}
+
+export function getDaemonJobLastRun(name: string): string | null {
+  const db = getDb();
+  const row = db.prepare("SELECT last_run_at FROM daemon_jobs WHERE name = ?").get(name) as { last_run_at: string } | undefined;
+  return row?.last_run_at ?? null;
 }
 
-export function markTweetReplied(originalTweetId: string): void {
+export function setDaemonJobLastRun(name: string, atIso: string): void {
   const db = getDb();
   db.prepare(`
-    INSERT OR IGNORE INTO replied_tweets (original_tweet_id, replied_at)
-    VALUES (?, ?)
-  `).run(originalTweetId, new Date().toISOString());
+    INSERT INTO daemon_jobs (name, last_run_at) VALUES (?, ?)
+    ON CONFLICT(name) DO UPDATE SET last_run_at = excluded.last_run_at
+  `).run(name, atIso);
 }
 
 export function closeDb(): void {
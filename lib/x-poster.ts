@@ -1,6 +1,7 @@
 import { TwitterApi } from "twitter-api-v2";
 import { config } from "../config";
-import { logPost, incrementPostCount } from "./x-db";
+import { beginPostAttempt, markPostPublished, markPostFailed, logDryRunPost, idempotencyKey } from "./x-db";
+import { validateTweet } from "./x-text";
 import fs from "fs";
 import path from "path";
 
@@ -26,26 +27,50 @@ export interface PostResult {
   tweetId?: string;
   error?: string;
   dryRun?: boolean;
+  duplicate?: boolean;           // the same text was already published — tweetId is the earlier tweet
 }
 
-export async function postTweet(text: string, imagePath?: string | null): Promise<PostResult> {
+// With a sourceUrl the tweet and a reply carrying the link are stored as a two-tweet chain
+export async function postTweet(text: string, imagePath?: string | null, strategy?: string, sourceUrl?: string | null): Promise<PostResult> {
   const isDryRun = config.x.dryRun;
+  const chain = sourceUrl ? { thread_id: "thread_" + Date.now(), thread_position: 1, source_url: sourceUrl } : {};
+
+  // Catch what the API would reject before spending a request (runs in dry-run too)
+  const validation = validateTweet(text);
+  if (!validation.valid) {
+    const error = `Invalid tweet: ${validation.errors.join("; ")}`;
+    console.error(`[VALIDATION] ${error}`);
+    return { success: false, error };
+  }
 
   if (isDryRun) {
     console.log(`[DRY RUN] Would post tweet: ${text.substring(0, 100)}...`);
     if (imagePath) {
       console.log(`[DRY RUN] Would attach image: ${imagePath}`);
     }
-    logPost({
-      tweet_id: "dry_run_" + Date.now(),
-      text,
-      image_path: imagePath ?? null,
-      posted_at: new Date().toISOString(),
-      status: "dry_run",
-    });
+    logDryRunPost({ platform: "twitter", text, image_path: imagePath ?? null, strategy, ...chain });
+    if (sourceUrl) logDryRunSourceLink(sourceUrl, chain.thread_id!, 2, strategy);
     return { success: true, dryRun: true };
   }
 
+  // A retried run with the same text gets the earlier tweet back instead of a second post
+  const ledger = beginPostAttempt(
+    { platform: "twitter", text, image_path: imagePath ?? null, strategy, ...chain },
+    idempotencyKey("twitter", text)
+  );
+  if ("duplicate" in ledger) {
+    const earlier = ledger.duplicate;
+    if (earlier.status === "published") {
+      console.log(`[SKIP] Same text already posted as ${earlier.tweet_id} (post #${earlier.id})`);
+      // The earlier run may have stopped before the link reply went out
+      if (sourceUrl && earlier.tweet_id) {
+        await replyWithSourceLink(earlier.tweet_id, sourceUrl, earlier.thread_id ?? chain.thread_id!, 2, strategy);
+      }
+      return { success: true, tweetId: earlier.tweet_id ?? undefined, duplicate: true };
+    }
+    return { success: false, error: `Post #${earlier.id} with the same text never finished — check X before retrying` };
+  }
+
   // Retry logic for transient errors
   const maxRetries = 3;
   const retryDelay = 2000;
@@ -69,15 +94,11 @@ export async function postTweet(text: string, imagePath?: string | null): Promis
 
     console.log(`Tweet posted successfully: ${tweet.data.id}`);
 
-    logPost({
-      tweet_id: tweet.data.id,
-      text,
-      image_path: imagePath ?? null,
-      posted_at: new Date().toISOString(),
-      status: "success",
-    });
+    markPostPublished(ledger.id, tweet.data.id);
 
-    incrementPostCount();
+    if (sourceUrl) {
+      await replyWithSourceLink(tweet.data.id, sourceUrl, chain.thread_id!, 2, strategy);
+    }
 
     return { success: true, tweetId: tweet.data.id };
     } catch (error: any) {
@@ -94,35 +115,206 @@ export async function postTweet(text: string, imagePath?: string | null): Promis
       // Final attempt failed
       console.error(`Failed to post tweet: ${errorMessage}`);
 
-      logPost({
-        tweet_id: "failed_" + Date.now(),
+      markPostFailed(ledger.id, errorMessage);
+
+      return { success: false, error: describeXError(error), tweetId: undefined };
+    }
+  }
+
+  // Should never reach here
+  markPostFailed(ledger.id, "Max retries exceeded");
+  return { success: false, error: "Max retries exceeded", tweetId: undefined };
+}
+
+// Maps X API errors to the messages the integration summary (and its exit code) relies on
+function describeXError(error: any): string {
+  const errorMessage = error.message || "Unknown error";
+
+  // Handle rate limiting
+  if (error.code === 429 || errorMessage.includes("Too Many Requests")) {
+    return "Rate limited";
+  }
+
+  // Handle auth errors
+  if (error.code === 401 || error.code === 403 || errorMessage.includes("Unauthorized")) {
+    return "Auth error - check config.ts keys";
+  }
+
+  // Handle 503 - suggest upgrade
+  if (error.code === 503) {
+    return "503 Service Unavailable - X API free tier is unreliable. Consider upgrading to Basic ($100/mo)";
+  }
+
+  return errorMessage;
+}
+
+function sourceLinkText(url: string): string {
+  return `Source: ${url}`;
+}
+
+// The link goes in a reply, not the post — X shows posts with links to fewer people.
+// Keyed on the tweet it answers, so a rerun never posts the same link twice.
+async function replyWithSourceLink(replyTo: string, url: string, threadId: string, position: number, strategy?: string): Promise<void> {
+  const text = sourceLinkText(url);
+  const ledger = beginPostAttempt(
+    { platform: "twitter", text, image_path: null, strategy, thread_id: threadId, thread_position: position, source_url: url },
+    idempotencyKey("source_link", replyTo, url)
+  );
+  if ("duplicate" in ledger) return;
+
+  try {
+    const tweet = await getClient().v2.tweet(text, { reply: { in_reply_to_tweet_id: replyTo } });
+    console.log(`Source link posted as reply: ${tweet.data.id}`);
+    markPostPublished(ledger.id, tweet.data.id);
+  } catch (error: any) {
+    // The post itself is out — a missing link is not worth failing it over
+    const errorMessage = error.message || "Unknown error";
+    console.error(`Failed to post source link reply: ${errorMessage}`);
+    markPostFailed(ledger.id, errorMessage);
+  }
+}
+
+function logDryRunSourceLink(url: string, threadId: string, position: number, strategy?: string): void {
+  console.log(`[DRY RUN] Would reply with source link: ${url}`);
+  logDryRunPost({
+    platform: "twitter",
+    text: sourceLinkText(url),
+    image_path: null,
+    strategy,
+    thread_id: threadId,
+    thread_position: position,
+    source_url: url,
+  });
+}
+
+export interface ThreadPostResult {
+  success: boolean;
+  threadId: string;
+  tweetIds: string[];
+  error?: string;
+  dryRun?: boolean;
+  duplicate?: boolean;           // every tweet was already published by an earlier run
+}
+
+// Posts tweets as a reply chain. The image goes on the first tweet; the whole thread counts as one post.
+// Each tweet is keyed on the whole thread plus its position, so rerunning a thread that broke
+// halfway reuses the tweets already posted and carries on from the first missing one.
+export async function postThread(tweets: string[], imagePath?: string | null, strategy?: string, sourceUrl?: string | null): Promise<ThreadPostResult> {
+  let threadId = "thread_" + Date.now();
+
+  const invalid = tweets
+    .map((text, i) => ({ position: i + 1, validation: validateTweet(text) }))
+    .filter(t => !t.validation.valid);
+  if (tweets.length === 0 || invalid.length > 0) {
+    const error = tweets.length === 0
+      ? "Invalid thread: no tweets"
+      : `Invalid thread: ${invalid.map(t => `tweet ${t.position}: ${t.validation.errors.join("; ")}`).join(", ")}`;
+    console.error(`[VALIDATION] ${error}`);
+    return { success: false, threadId, tweetIds: [], error };
+  }
+
+  if (config.x.dryRun) {
+    tweets.forEach((text, i) => {
+      console.log(`[DRY RUN] Would post thread tweet ${i + 1}/${tweets.length}: ${text.substring(0, 100)}...`);
+      logDryRunPost({
+        platform: "twitter",
         text,
-        image_path: imagePath ?? null,
-        posted_at: new Date().toISOString(),
-        status: "failed",
+        image_path: i === 0 ? imagePath ?? null : null,
+        strategy,
+        thread_id: threadId,
+        thread_position: i + 1,
+        source_url: sourceUrl,
       });
+    });
+    if (imagePath) {
+      console.log(`[DRY RUN] Would attach image to first tweet: ${imagePath}`);
+    }
+    if (sourceUrl) logDryRunSourceLink(sourceUrl, threadId, tweets.length + 1, strategy);
+    return { success: true, threadId, tweetIds: [], dryRun: true };
+  }
 
-      // Handle rate limiting
-      if (error.code === 429 || errorMessage.includes("Too Many Requests")) {
-        return { success: false, error: "Rate limited", tweetId: undefined };
-      }
+  const maxRetries = 3;
+  const retryDelay = 2000;
+  const tweetIds: string[] = [];
+  const threadKey = tweets.join("\n---\n");
+  let reused = 0;
 
-      // Handle auth errors
-      if (error.code === 401 || error.code === 403 || errorMessage.includes("Unauthorized")) {
-        return { success: false, error: "Auth error - check config.ts keys", tweetId: undefined };
-      }
+  for (let i = 0; i < tweets.length; i++) {
+    const text = tweets[i];
+    const replyTo = tweetIds[tweetIds.length - 1];
 
-      // Handle 503 - suggest upgrade
-      if (error.code === 503) {
-        return { success: false, error: "503 Service Unavailable - X API free tier is unreliable. Consider upgrading to Basic ($100/mo)", tweetId: undefined };
+    const ledger = beginPostAttempt(
+      {
+        platform: "twitter",
+        text,
+        image_path: i === 0 ? imagePath ?? null : null,
+        strategy,
+        thread_id: threadId,
+        thread_position: i + 1,
+        source_url: sourceUrl,
+      },
+      idempotencyKey("twitter_thread", threadKey, i + 1)
+    );
+    if ("duplicate" in ledger) {
+      const earlier = ledger.duplicate;
+      if (earlier.status !== "published" || !earlier.tweet_id) {
+        const error = `Thread tweet ${i + 1} (post #${earlier.id}) never finished — check X before retrying`;
+        console.error(error);
+        return { success: false, threadId, tweetIds, error };
       }
+      console.log(`[SKIP] Thread tweet ${i + 1}/${tweets.length} already posted as ${earlier.tweet_id}`);
+      if (i === 0 && earlier.thread_id) threadId = earlier.thread_id;
+      tweetIds.push(earlier.tweet_id);
+      reused++;
+      continue;
+    }
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        const twitter = getClient();
+        let mediaId: string | undefined;
+
+        if (i === 0 && imagePath && fs.existsSync(imagePath)) {
+          console.log(`Uploading image: ${imagePath}`);
+          mediaId = await twitter.v1.uploadMedia(imagePath);
+        }
+
+        const tweet = await twitter.v2.tweet(text, {
+          media: mediaId ? { media_ids: [mediaId] } : undefined,
+          reply: replyTo ? { in_reply_to_tweet_id: replyTo } : undefined,
+        });
+
+        console.log(`Thread tweet ${i + 1}/${tweets.length} posted: ${tweet.data.id}`);
+
+        markPostPublished(ledger.id, tweet.data.id);
+
+        tweetIds.push(tweet.data.id);
+        break;
+      } catch (error: any) {
+        const errorMessage = error.message || "Unknown error";
+        const isRetryable = error.code === 503 || errorMessage.includes("503");
 
-      return { success: false, error: errorMessage, tweetId: undefined };
+        if (isRetryable && attempt < maxRetries) {
+          console.log(`[RETRY] 503 error, attempt ${attempt}/${maxRetries}, waiting ${retryDelay}ms...`);
+          await new Promise(r => setTimeout(r, retryDelay));
+          continue;
+        }
+
+        console.error(`Failed to post thread tweet ${i + 1}/${tweets.length}: ${errorMessage}`);
+
+        markPostFailed(ledger.id, errorMessage);
+
+        // Stop here — replying to a missing tweet would break the chain
+        return { success: false, threadId, tweetIds, error: describeXError(error) };
+      }
     }
   }
 
-  // Should never reach here
-  return { success: false, error: "Max retries exceeded", tweetId: undefined };
+  if (sourceUrl) {
+    await replyWithSourceLink(tweetIds[tweetIds.length - 1], sourceUrl, threadId, tweets.length + 1, strategy);
+  }
+
+  return { success: true, threadId, tweetIds, duplicate: reused === tweets.length };
 }
 
 export function resetClient(): void {
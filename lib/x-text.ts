@@ -0,0 +1,158 @@
+// X (Twitter) character counting — mirrors the twitter-text v3 weighting config.
+// Most Latin/Cyrillic/Greek characters and common punctuation weigh 1, everything else
+// (CJK, most symbols) weighs 2 against the 280 limit. Every emoji sequence weighs 2 no
+// matter how many code points it has, and every URL costs 23 (t.co wrapping).
+
+export const MAX_TWEET_LENGTH = 280;
+export const URL_LENGTH = 23;
+
+const DEFAULT_WEIGHT = 200;
+const SCALE = 100;
+const WEIGHTED_RANGES: { start: number; end: number; weight: number }[] = [
+  { start: 0, end: 4351, weight: 100 },
+  { start: 8192, end: 8205, weight: 100 },
+  { start: 8208, end: 8223, weight: 100 },
+  { start: 8242, end: 8247, weight: 100 },
+];
+
+// Explicit http(s) URLs, www. hosts, and bare domains on common TLDs (what X auto-links)
+const URL_REGEX = /\bhttps?:\/\/[^\s<>"]+|\bwww\.[^\s<>"]+|\b(?:[a-z0-9-]+\.)+(?:com|org|net|io|co|ai|app|dev|xyz|gg|me|tv|news|finance|uk|us|eu)\b(?:\/[^\s<>"]*)?/gi;
+// Trailing punctuation is not part of a link ("see example.com.")
+const URL_TRAILING_PUNCTUATION = /[.,:;!?)\]'"]+$/;
+
+// The combining keycap catches 1️⃣ and #️⃣, whose base character is plain ASCII
+const EMOJI_REGEX = /\p{Extended_Pictographic}|\p{Regional_Indicator}|\u20E3/u;
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+export interface TweetValidation {
+  valid: boolean;
+  weightedLength: number;
+  remaining: number;
+  errors: string[];
+}
+
+// A counting unit: a whole URL, or a single grapheme cluster
+interface TextUnit {
+  end: number;
+  weight: number;
+}
+
+function codePointWeight(codePoint: number): number {
+  const range = WEIGHTED_RANGES.find(r => codePoint >= r.start && codePoint <= r.end);
+  return range ? range.weight : DEFAULT_WEIGHT;
+}
+
+function graphemeWeight(grapheme: string): number {
+  if (EMOJI_REGEX.test(grapheme)) {
+    return DEFAULT_WEIGHT;
+  }
+  let weight = 0;
+  for (const char of grapheme) {
+    weight += codePointWeight(char.codePointAt(0)!);
+  }
+  return weight;
+}
+
+export function extractUrls(text: string): { url: string; start: number; end: number }[] {
+  const urls: { url: string; start: number; end: number }[] = [];
+  for (const match of text.matchAll(URL_REGEX)) {
+    const url = match[0].replace(URL_TRAILING_PUNCTUATION, "");
+    const start = match.index!;
+    // Skip the domain part of an email address
+    if (start > 0 && text[start - 1] === "@") continue;
+    urls.push({ url, start, end: start + url.length });
+  }
+  return urls;
+}
+
+function toUnits(text: string): TextUnit[] {
+  const units: TextUnit[] = [];
+  const urls = extractUrls(text);
+  let index = 0;
+
+  for (const url of urls) {
+    for (const { segment } of segmenter.segment(text.slice(index, url.start))) {
+      index += segment.length;
+      units.push({ end: index, weight: graphemeWeight(segment) });
+    }
+    index = url.end;
+    units.push({ end: index, weight: URL_LENGTH * SCALE });
+  }
+
+  for (const { segment } of segmenter.segment(text.slice(index))) {
+    index += segment.length;
+    units.push({ end: index, weight: graphemeWeight(segment) });
+  }
+
+  return units;
+}
+
+export function weightedLength(text: string): number {
+  const units = toUnits(text.normalize("NFC"));
+  return units.reduce((sum, unit) => sum + unit.weight, 0) / SCALE;
+}
+
+export function validateTweet(text: string, maxLength: number = MAX_TWEET_LENGTH): TweetValidation {
+  const length = weightedLength(text);
+  const errors: string[] = [];
+
+  if (text.trim().length === 0) {
+    errors.push("Tweet is empty");
+  }
+  if (length > maxLength) {
+    errors.push(`Tweet is ${length}/${maxLength} weighted characters`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    weightedLength: length,
+    remaining: maxLength - length,
+    errors,
+  };
+}
+
+// Longest prefix that fits within maxLength — never splits a URL or an emoji
+function fitPrefix(text: string, maxLength: number): string {
+  let weight = 0;
+  let end = 0;
+  for (const unit of toUnits(text)) {
+    if ((weight + unit.weight) / SCALE > maxLength) break;
+    weight += unit.weight;
+    end = unit.end;
+  }
+  return text.slice(0, end);
+}
+
+// Smart truncation: cut at a natural break point instead of chopping mid-word
+export function truncateTweet(text: string, maxLength: number = MAX_TWEET_LENGTH): string {
+  const normalized = text.normalize("NFC");
+  if (weightedLength(normalized) <= maxLength) {
+    return normalized;
+  }
+
+  // Breaks earlier than this throw away too much of the post
+  const minKept = maxLength * 0.55;
+  const slice = fitPrefix(normalized, maxLength);
+
+  // Try to cut at last paragraph break
+  const lastPara = slice.lastIndexOf('\n\n');
+  if (lastPara !== -1 && weightedLength(slice.substring(0, lastPara)) > minKept) {
+    return slice.substring(0, lastPara).trim();
+  }
+
+  // Try last sentence boundary
+  const lastSentence = Math.max(
+    slice.lastIndexOf('. '),
+    slice.lastIndexOf('? '),
+    slice.lastIndexOf('! ')
+  );
+  if (lastSentence !== -1 && weightedLength(slice.substring(0, lastSentence + 1)) > minKept) {
+    return slice.substring(0, lastSentence + 1).trim();
+  }
+
+  // Last resort: cut at last space and add ellipsis
+  const room = fitPrefix(normalized, maxLength - 3);
+  const lastSpace = room.lastIndexOf(' ');
+  return (lastSpace > 0 ? room.substring(0, lastSpace) : room).trim() + "...";
+}
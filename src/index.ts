@@ -1,16 +1,141 @@
 import type { PluginAPI } from 'openclaw';
+import { config } from '../config';
+import { analyzeTrends, generatePostIdeas, PostIdea, TrendData } from '../lib/trends';
+import { generatePlatformContent } from '../lib/content';
+import { runPipeline, getBusinessData, resolveKeywords } from '../lib/pipeline';
+import { publishToPlatform, PublishOutcome } from '../lib/post-queue';
+import { runCommentFlow } from '../lib/x-commenter';
+import { getPostCountLast24h, getCommentCountLast24h, getLedgerSummary, listQueue, QUEUE_STATUSES } from '../lib/x-db';
+import { Logger } from '../lib/logger';
+import { RunLog } from '../lib/run-log';
+import { applySecrets } from '../lib/secrets';
+import { Strategy, STRATEGIES } from '../lib/strategy-selector';
+import { businessTimeZone, zonedDate } from '../lib/time';
+
+// Plugin settings, validated against configSchema in openclaw.plugin.json
+interface PluginConfig {
+  enabled?: boolean;
+  // Mixes output platforms (twitter, instagram, facebook) and trend sources (reddit, google, ...)
+  defaultPlatforms?: string[];
+  defaultStrategy?: Strategy;
+}
+
+const OUTPUT_PLATFORMS = ['twitter', 'twitter_thread', 'instagram', 'facebook'];
+const SOURCE_NAMES: Record<string, keyof TrendData> = {
+  google: 'google',
+  x: 'xcom',
+  xcom: 'xcom',
+  reddit: 'reddit',
+  news: 'news',
+  coingecko: 'coingecko',
+};
 
 export default function register(api: PluginAPI) {
-  // Register the analyze_trends tool
+  const pluginConfig: PluginConfig = api.config ?? {};
+
+  // Credentials from .env / secrets.json / TRENDGEN_* — same layers as the CLI
+  try {
+    applySecrets();
+  } catch (error: any) {
+    console.error(`[TRENDGEN] ${error.message}`);
+  }
+
+  function resolveStrategy(strategy?: string): Strategy {
+    const chosen = strategy || pluginConfig.defaultStrategy || config.business.postType;
+    if (!STRATEGIES.includes(chosen as Strategy)) {
+      throw new Error(`Unknown strategy "${chosen}" — expected ${STRATEGIES.join(', ')}`);
+    }
+    return chosen as Strategy;
+  }
+
+  // Trend sources named in the call, else in defaultPlatforms — undefined means every enabled source
+  function resolveSources(requested?: string[]): (keyof TrendData)[] | undefined {
+    const names = requested && requested.length > 0 ? requested : pluginConfig.defaultPlatforms || [];
+    const unknown = requested?.find(name => !SOURCE_NAMES[name.toLowerCase()]);
+    if (unknown) {
+      throw new Error(`Unknown source "${unknown}" — expected ${Object.keys(SOURCE_NAMES).join(', ')}`);
+    }
+    const sources = names.map(name => SOURCE_NAMES[name.toLowerCase()]).filter(Boolean);
+    return sources.length > 0 ? [...new Set(sources)] : undefined;
+  }
+
+  // Output platforms named in the call, else in defaultPlatforms, else config.output.platforms
+  function resolvePlatforms(requested?: string): string[] {
+    if (requested) {
+      if (!OUTPUT_PLATFORMS.includes(requested)) {
+        throw new Error(`Unknown platform "${requested}" — expected ${OUTPUT_PLATFORMS.join(', ')}`);
+      }
+      return [requested];
+    }
+    const defaults = (pluginConfig.defaultPlatforms || []).filter(p => OUTPUT_PLATFORMS.includes(p));
+    return defaults.length > 0 ? defaults : [...config.output.platforms];
+  }
+
+  // Every tool call is one run in the run log (source "openclaw"); errors come back as a result.
+  // A result carrying its own status (e.g. a skipped post) keeps it.
+  async function runTool<T extends object>(name: string, fn: (runLog: RunLog) => Promise<T>) {
+    const runLog = new RunLog('openclaw');
+    try {
+      const result = await runLog.timed(`tool.${name}`, () => fn(runLog));
+      return { status: 'success', runId: runLog.runId, ...result };
+    } catch (error: any) {
+      return { status: 'error', runId: runLog.runId, error: error.message || String(error) };
+    }
+  }
+
+  // Posts the given text, or runs the pipeline for the platform and posts what it generated
+  async function generateAndPublish(
+    runLog: RunLog,
+    platform: string,
+    args: { text?: string; imagePath?: string; keywords?: string[]; strategy?: string }
+  ) {
+    const strategy = resolveStrategy(args.strategy);
+    let text = args.text;
+    let imagePath = args.imagePath ?? null;
+    // Only generated posts cite a source — text passed in by the agent has none
+    let sourceUrl: string | null = null;
+
+    if (!text) {
+      const result = await runPipeline({
+        runId: runLog.runId,
+        platforms: [platform],
+        strategy,
+        strategyReason: args.strategy ? 'set by the agent' : 'plugin defaultStrategy',
+        keywords: args.keywords,
+        quiet: true,
+      });
+      if (result.status === 'error') throw new Error(`Pipeline failed: ${result.error}`);
+      const piece = result.content.find(c => c.platform === platform);
+      if (!piece) throw new Error(`No ${platform} content generated (every draft may have been a duplicate)`);
+      text = piece.text;
+      imagePath = imagePath ?? result.currentPost?.imagePath ?? null;
+      sourceUrl = piece.sourceUrl ?? null;
+    }
+
+    const outcome: PublishOutcome = await publishToPlatform(platform, text, imagePath, strategy, platform, sourceUrl);
+    const posted = outcome.status === 'posted' || outcome.status === 'dry_run';
+    runLog.step(`post.${platform}`, posted ? 'ok' : outcome.status === 'skipped' ? 'skipped' : 'error', outcome);
+    return {
+      status: posted ? 'success' : outcome.status,
+      posted: outcome.status,
+      postId: outcome.postId ?? null,
+      reason: outcome.reason,
+      platform,
+      text,
+      imagePath,
+      strategy,
+    };
+  }
+
   api.registerTool({
     name: 'analyze_trends',
-    description: 'Analyze trends across multiple data sources (Reddit, Google, X, CoinGecko, News)',
+    description: 'Analyze trends across multiple data sources (Reddit, Google, X, CoinGecko, News) and return scored post ideas',
     parameters: {
       platforms: {
         type: 'array',
         items: { type: 'string' },
         required: false,
-        description: 'Data sources to analyze (reddit, google, x, coingecko, news)'
+        description: 'Data sources to analyze (reddit, google, x, coingecko, news) — defaults to the sources in defaultPlatforms'
       },
       keywords: {
         type: 'array',
@@ -24,44 +149,170 @@ export default function register(api: PluginAPI) {
         description: 'Content strategy: value_first, authority_building, or direct_sales'
       }
     },
-    async execute({ platforms, keywords, strategy }) {
-      // This tool delegates to the skill for trend analysis
-      // The skill uses browser tools to fetch trend data
-      return {
-        status: 'pending',
-        message: 'Use the trend-gen skill for trend analysis'
-      };
+    async execute({ platforms, keywords, strategy }: { platforms?: string[]; keywords?: string[]; strategy?: string }) {
+      return runTool('analyze_trends', async runLog => {
+        const logger = new Logger(true, runLog);
+        const businessData = getBusinessData(resolveStrategy(strategy));
+        const resolvedKeywords = await resolveKeywords(businessData, keywords, logger);
+        const trends = await analyzeTrends(resolvedKeywords, businessData, logger, resolveSources(platforms));
+        const ideas = await generatePostIdeas(businessData, trends, logger, await Logger.getRecentPostSnippets(10));
+        return { strategy: businessData.postType, keywords: resolvedKeywords, trends, ideas };
+      });
     }
   });
 
-  // Register the generate_content tool
   api.registerTool({
     name: 'generate_trend_content',
     description: 'Generate social media content based on trending topics',
     parameters: {
       platform: {
         type: 'string',
-        required: true,
-        description: 'Target platform: twitter, instagram, or facebook'
+        required: false,
+        description: 'Target platform: twitter, twitter_thread, instagram, or facebook — defaults to defaultPlatforms'
       },
       trends: {
         type: 'array',
         items: { type: 'string' },
         required: true,
-        description: 'Trending topics to base content on'
+        description: 'Trending topics or post ideas to base content on (one post per topic)'
       },
       strategy: {
         type: 'string',
         required: false,
-        default: 'value_first',
-        description: 'Content strategy: value_first, authority_building, or direct_sales'
+        description: 'Content strategy: value_first, authority_building, or direct_sales — defaults to defaultStrategy'
       }
     },
-    async execute({ platform, trends, strategy }) {
-      return {
-        status: 'pending',
-        message: 'Use the trend-gen skill for content generation'
-      };
+    async execute({ platform, trends, strategy }: { platform?: string; trends: string[]; strategy?: string }) {
+      return runTool('generate_trend_content', async runLog => {
+        if (!Array.isArray(trends) || trends.length === 0) throw new Error('trends must list at least one topic');
+        const logger = new Logger(true, runLog);
+        const businessData = getBusinessData(resolveStrategy(strategy));
+        const ideas: PostIdea[] = trends.map((trend, i) => ({
+          id: `openclaw_${i + 1}`,
+          concept: trend,
+          trend_source: 'openclaw',
+          relevance_score: 10,
+        }));
+        const content = await generatePlatformContent(businessData, ideas, resolvePlatforms(platform), logger);
+        return { strategy: businessData.postType, content };
+      });
+    }
+  });
+
+  api.registerTool({
+    name: 'post_to_x',
+    description: 'Post to X via the API. Without text, runs the full pipeline (trends → idea → tweet) and posts the result. Respects x.enabled, dryRun and the daily cap',
+    parameters: {
+      text: {
+        type: 'string',
+        required: false,
+        description: 'Tweet to post (threads: tweets separated by a line with ---). Omit to generate one'
+      },
+      thread: {
+        type: 'boolean',
+        required: false,
+        description: 'Post as a thread'
+      },
+      imagePath: {
+        type: 'string',
+        required: false,
+        description: 'Local image to attach'
+      },
+      keywords: {
+        type: 'array',
+        items: { type: 'string' },
+        required: false,
+        description: 'Keywords for the generated post (only used without text)'
+      },
+      strategy: {
+        type: 'string',
+        required: false,
+        description: 'Content strategy: value_first, authority_building, or direct_sales — defaults to defaultStrategy'
+      }
+    },
+    async execute(args: { text?: string; thread?: boolean; imagePath?: string; keywords?: string[]; strategy?: string }) {
+      return runTool('post_to_x', runLog => generateAndPublish(runLog, args.thread ? 'twitter_thread' : 'twitter', args));
+    }
+  });
+
+  api.registerTool({
+    name: 'post_to_facebook',
+    description: 'Post to the Facebook Page via the Graph API. Without text, runs the full pipeline and posts the result. Respects facebook.enabled, dryRun and the daily cap',
+    parameters: {
+      text: {
+        type: 'string',
+        required: false,
+        description: 'Post text. Omit to generate one'
+      },
+      imagePath: {
+        type: 'string',
+        required: false,
+        description: 'Local image to attach'
+      },
+      keywords: {
+        type: 'array',
+        items: { type: 'string' },
+        required: false,
+        description: 'Keywords for the generated post (only used without text)'
+      },
+      strategy: {
+        type: 'string',
+        required: false,
+        description: 'Content strategy: value_first, authority_building, or direct_sales — defaults to defaultStrategy'
+      }
+    },
+    async execute(args: { text?: string; imagePath?: string; keywords?: string[]; strategy?: string }) {
+      return runTool('post_to_facebook', runLog => generateAndPublish(runLog, 'facebook', args));
+    }
+  });
+
+  api.registerTool({
+    name: 'run_comment_flow',
+    description: 'Search X via twitterapi.io for relevant conversations and reply to them, up to x.commentsPerDay',
+    parameters: {},
+    async execute() {
+      return runTool('run_comment_flow', async () => {
+        const result = await runCommentFlow();
+        return { ...result, status: result.success ? 'success' : 'error' };
+      });
+    }
+  });
+
+  api.registerTool({
+    name: 'get_posting_stats',
+    description: 'Posts and comments in the last 24 hours against the daily caps, plus the approval queue by status',
+    parameters: {},
+    async execute() {
+      return runTool('get_posting_stats', async () => {
+        const queue = listQueue();
+        return {
+          date: zonedDate(new Date(), businessTimeZone()),
+          timezone: businessTimeZone(),
+          x: {
+            enabled: config.x.enabled,
+            dryRun: config.x.dryRun,
+            posts: getPostCountLast24h('twitter'),
+            postsPerDay: config.x.postsPerDay,
+            comments: getCommentCountLast24h(),
+            commentsPerDay: config.x.commentsPerDay,
+          },
+          facebook: {
+            enabled: config.facebook.enabled,
+            dryRun: config.facebook.dryRun,
+            posts: getPostCountLast24h('facebook'),
+            postsPerDay: config.facebook.postsPerDay,
+          },
+          instagram: {
+            enabled: config.instagram.enabled,
+            dryRun: config.instagram.dryRun,
+            posts: getPostCountLast24h('instagram'),
+            postsPerDay: config.instagram.postsPerDay,
+          },
+          // Every attempt in the window by status — dry runs and failures are kept apart from published
+          ledger: getLedgerSummary(new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()),
+          queue: Object.fromEntries(QUEUE_STATUSES.map(status => [status, queue.filter(item => item.status === status).length])),
+        };
+      });
     }
   });
 
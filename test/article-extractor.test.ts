@@ -0,0 +1,114 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { extractArticle, keyFacts, splitSentences } from "../lib/sources/article-extractor";
+
+function page(file: string): string {
+  return readFileSync(join(import.meta.dir, "fixtures", "articles", file), "utf-8");
+}
+
+describe("extractArticle", () => {
+  test("plain <article> page: reads the body, not the chrome around it", () => {
+    const article = extractArticle(page("plain-article.html"));
+
+    expect(article.title).toBe("Bitcoin Tops $120,000 as Spot ETF Inflows Surge");
+    expect(article.summary).toBe(
+      "Bitcoin climbed above $120,000 for the first time on Sunday, extending a rally driven by record inflows into U.S. spot exchange-traded funds. " +
+      "The largest cryptocurrency rose 4.2% over 24 hours, according to CoinDesk data, while ether gained 2.1%."
+    );
+    expect(article.facts).toEqual([
+      "Bitcoin climbed above $120,000 for the first time on Sunday, extending a rally driven by record inflows into U.S. spot exchange-traded funds.",
+      "The largest cryptocurrency rose 4.2% over 24 hours, according to CoinDesk data, while ether gained 2.1%.",
+      "Spot bitcoin ETFs took in $1.3 billion on Friday, the most since March, data from Farside Investors shows.",
+      "BlackRock’s IBIT accounted for $870 million of that.",
+      "“This is demand we haven’t seen since the ETFs launched,” said Mr. Smith, head of research at Example Capital.",
+    ]);
+    for (const boilerplate of ["Trending", "Ether falls", "By Jane Doe", "Advertisement", "newsletter", "Great article", "All rights reserved", "not content", "hashprice"]) {
+      expect(article.text).not.toContain(boilerplate);
+    }
+    expect(article.wordCount).toBe(114);
+  });
+
+  test("div soup: finds the story among unmarked divs and drops headline, promo and sidebar", () => {
+    const article = extractArticle(page("div-soup.html"));
+
+    expect(article.summary).toBe(
+      "The European Commission fined Meta €200 million on Thursday for training its Llama models on public posts from EU users without valid consent. " +
+      "It is the largest penalty yet under the bloc's AI rules, officials said."
+    );
+    expect(article.facts).toContain("The company has 60 days to respond, and shares fell 1.8% in early trading.");
+    expect(article.facts).toContain("\"Consent is not optional because the data is public,\" Commissioner Maria Lopez told reporters in Brussels.");
+    expect(article.text.split("\n\n")).toHaveLength(4);
+    for (const boilerplate of ["cookies", "Share on X", "Subscribe", "Ethereum developers", "All rights reserved", "not the story"]) {
+      expect(article.text).not.toContain(boilerplate);
+    }
+    expect(article.text).not.toStartWith("EU fines Meta");
+  });
+
+  test("JSON-LD page: uses articleBody when the HTML body is rendered by script", () => {
+    const article = extractArticle(page("json-ld.html"), { maxFacts: 2 });
+
+    expect(article.title).toBe("Nvidia beats estimates as data-center sales jump 94%");
+    expect(article.text).toStartWith("Nvidia reported revenue of $35.1 billion");
+    expect(article.text).not.toContain("Loading");
+    expect(article.text).toContain("\"Demand for Blackwell is staggering,\" CEO Jensen Huang said");
+    expect(article.summary).toBe(
+      "Nvidia reported revenue of $35.1 billion for its fiscal third quarter on Wednesday, up 94% from a year earlier and ahead of the $33.2 billion analysts expected. " +
+      "Data-center sales reached $30.8 billion, the company said, as cloud providers kept buying its Blackwell chips."
+    );
+    expect(article.facts).toEqual([
+      "Nvidia reported revenue of $35.1 billion for its fiscal third quarter on Wednesday, up 94% from a year earlier and ahead of the $33.2 billion analysts expected.",
+      "Data-center sales reached $30.8 billion, the company said, as cloud providers kept buying its Blackwell chips.",
+    ]);
+  });
+
+  test("falls back to the meta description when the page has no readable text", () => {
+    const article = extractArticle('<html><head><meta name="description" content="Short blurb."></head><body><div class="menu"><a href="/">Home</a></div></body></html>');
+    expect(article.summary).toBe("Short blurb.");
+    expect(article.facts).toEqual([]);
+  });
+});
+
+describe("splitSentences", () => {
+  test("splits on sentence ends but not on abbreviations, initials or decimals", () => {
+    expect(splitSentences("Mr. Smith paid $4.2 million to U.S. Steel on Oct. 3. Prices rose 2.1%! Did it last? “No,” he said.")).toEqual([
+      "Mr. Smith paid $4.2 million to U.S. Steel on Oct. 3.",
+      "Prices rose 2.1%!",
+      "Did it last?",
+      "“No,” he said.",
+    ]);
+  });
+
+  test("never joins sentences across paragraphs", () => {
+    expect(splitSentences("First paragraph without a full stop\n\nsecond one starts lower case.")).toEqual([
+      "First paragraph without a full stop",
+      "second one starts lower case.",
+    ]);
+  });
+});
+
+describe("keyFacts", () => {
+  const sentences = [
+    "Shares of Example Corp rose 12% to $48.20 on Tuesday after earnings beat estimates.",
+    "The weather was pleasant and everyone seemed to be in a good mood about it all.",
+    "Will the company raise its forecast again in 2027 after this strong quarter?",
+    "Subscribe to our newsletter for $1 a month to read 100 more stories like this.",
+    "Revenue reached $2.4 billion, up 30% from a year earlier, the company said.",
+    "Short 5%.",
+  ];
+
+  test("keeps sentences with figures and sources, skips questions, boilerplate and fragments", () => {
+    expect(keyFacts(sentences, 5)).toEqual([
+      "Shares of Example Corp rose 12% to $48.20 on Tuesday after earnings beat estimates.",
+      "Revenue reached $2.4 billion, up 30% from a year earlier, the company said.",
+    ]);
+  });
+
+  test("takes the strongest facts up to the limit and returns them in article order", () => {
+    expect(keyFacts(sentences, 1)).toHaveLength(1);
+    expect(keyFacts([...sentences].reverse(), 2)).toEqual([
+      "Revenue reached $2.4 billion, up 30% from a year earlier, the company said.",
+      "Shares of Example Corp rose 12% to $48.20 on Tuesday after earnings beat estimates.",
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { cronMatches, parseCron } from "../lib/cron";
+import type { ZonedParts } from "../lib/time";
+
+// Wall-clock parts for "YYYY-MM-DD HH:MM", the shape zonedParts hands the daemon
+function at(local: string): ZonedParts {
+  const [date, time] = local.split(" ");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  return { date, hour, minute, dayOfMonth: day, month, dayOfWeek: new Date(Date.UTC(year, month - 1, day)).getUTCDay() };
+}
+
+describe("cronMatches", () => {
+  // 2026-10-18 is a Sunday, 2026-10-19 a Monday
+  const cases: [string, string, boolean][] = [
+    ["* * * * *", "2026-10-19 03:17", true],
+    ["*/15 * * * *", "2026-10-19 09:30", true],
+    ["*/15 * * * *", "2026-10-19 09:31", false],
+    ["5/15 * * * *", "2026-10-19 09:50", true],
+    ["5/15 * * * *", "2026-10-19 09:45", false],
+    ["30 9-21/3 * * *", "2026-10-19 09:30", true],
+    ["30 9-21/3 * * *", "2026-10-19 21:30", true],
+    ["30 9-21/3 * * *", "2026-10-19 10:30", false],
+    ["30 9-21/3 * * *", "2026-10-19 00:30", false],
+    ["0 8,12,18 * * *", "2026-10-19 12:00", true],
+    ["0 8,12,18 * * *", "2026-10-19 13:00", false],
+    ["0 9 * * 1-5", "2026-10-19 09:00", true],
+    ["0 9 * * 1-5", "2026-10-18 09:00", false],
+    ["0 9 * * 0", "2026-10-18 09:00", true],
+    ["0 9 * * 7", "2026-10-18 09:00", true],
+    ["0 0 1,15 * *", "2026-10-15 00:00", true],
+    ["0 0 1,15 * *", "2026-10-16 00:00", false],
+    ["0 9 * 1-3 *", "2026-02-02 09:00", true],
+    ["0 9 * 1-3 *", "2026-10-19 09:00", false],
+    // Both day fields restricted: either one is enough
+    ["0 9 13 * 5", "2026-11-13 09:00", true],
+    ["0 9 13 * 5", "2026-10-23 09:00", true],
+    ["0 9 13 * 5", "2026-10-13 09:00", true],
+    ["0 9 13 * 5", "2026-10-19 09:00", false],
+    // Only the day of month restricted: the weekday is ignored
+    ["0 9 13 * *", "2026-10-23 09:00", false],
+  ];
+
+  for (const [expression, local, expected] of cases) {
+    test(`"${expression}" at ${local} → ${expected}`, () => {
+      expect(cronMatches(parseCron(expression), at(local))).toBe(expected);
+    });
+  }
+});
+
+describe("parseCron", () => {
+  test("expands ranges, steps and lists", () => {
+    const schedule = parseCron("0,30 8-20/4 1 */6 1-3,5");
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([8, 12, 16, 20]);
+    expect([...schedule.months]).toEqual([1, 7]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 5]);
+    expect(schedule.anyDayOfMonth).toBe(false);
+    expect(schedule.anyDayOfWeek).toBe(false);
+  });
+
+  test("reads 7 as Sunday", () => {
+    expect([...parseCron("0 9 * * 0,7").daysOfWeek]).toEqual([0]);
+  });
+
+  const invalid: Record<string, string> = {
+    "four fields": "0 9 * *",
+    "six fields": "0 0 9 * * *",
+    "minute 60": "60 * * * *",
+    "hour 24": "0 24 * * *",
+    "day of month 0": "0 9 0 * *",
+    "month 13": "0 9 * 13 *",
+    "weekday 8": "0 9 * * 8",
+    "backwards range": "0 17-9 * * *",
+    "zero step": "*/0 * * * *",
+    "named weekday": "0 9 * * MON",
+    "empty list item": "0,,30 * * * *",
+  };
+
+  for (const [name, expression] of Object.entries(invalid)) {
+    test(`rejects ${name}`, () => {
+      expect(() => parseCron(expression)).toThrow();
+    });
+  }
+});
@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { FeedParser, FeedItem, decodeEntities, htmlToText, normalizeDate, parseFeedXml } from "../lib/sources/feed-parser";
+
+// Trimmed copies of feeds from sources.news.rssFeeds (and one RDF feed), markup kept as served
+const FEEDS = {
+  cointelegraph: { file: "cointelegraph.xml", baseUrl: "https://cointelegraph.com/rss" },
+  techcrunch: { file: "techcrunch-ai.xml", baseUrl: "https://techcrunch.com/category/artificial-intelligence/feed/" },
+  verge: { file: "verge-ai.xml", baseUrl: "https://www.theverge.com/rss/ai-artificial-intelligence/index.xml" },
+  slashdot: { file: "slashdot.rdf", baseUrl: "https://rss.slashdot.org/Slashdot/slashdotMain" },
+};
+
+function fixture(file: string): string {
+  return readFileSync(join(import.meta.dir, "fixtures", "feeds", file), "utf-8");
+}
+
+function parse(name: keyof typeof FEEDS): FeedItem[] {
+  const { file, baseUrl } = FEEDS[name];
+  return parseFeedXml(fixture(file), { baseUrl });
+}
+
+// Feeds the document in fixed-size chunks, the way readFeed hands over a streamed body
+function parseInChunks(xml: string, size: number, baseUrl: string): FeedItem[] {
+  const parser = new FeedParser({ baseUrl });
+  for (let i = 0; i < xml.length; i += size) parser.write(xml.slice(i, i + size));
+  return parser.end();
+}
+
+describe("RSS 2.0", () => {
+  test("reads CDATA fields, media:content and dc:creator", () => {
+    const [first, second] = parse("cointelegraph");
+    expect(first).toEqual({
+      title: "Bitcoin price tops $120K as spot ETF inflows hit a 3-month high",
+      link: "https://cointelegraph.com/news/bitcoin-price-tops-120k-etf-inflows",
+      publishedAt: "2026-10-18T11:30:00.000Z",
+      description: "Spot Bitcoin ETFs took in $1.2 billion on Friday & BTC’s price followed.",
+      author: "Helen Partz",
+      categories: ["Bitcoin", "ETF"],
+      imageUrl: "https://images.cointelegraph.com/images/1434_main.jpg",
+    });
+    expect(second.title).toBe("AT&T-backed startup raises $40M for AI agents that pay in stablecoins");
+    expect(second.imageUrl).toBe("https://images.cointelegraph.com/images/agents.png");
+  });
+
+  test("skips items without a link", () => {
+    expect(parse("cointelegraph").map(item => item.title)).not.toContain("No link — dropped");
+  });
+
+  test("decodes entities once in plain-text fields and twice in HTML descriptions", () => {
+    const [first, second] = parse("techcrunch");
+    expect(first.title).toBe("Anthropic’s new model tops coding benchmarks — and it’s cheaper");
+    expect(second.title).toBe("Q&amp;A: why <b> tags show up in headlines");
+    expect(second.description).toBe("Escaped markup: Fish & chips — £9");
+    expect(second.categories).toEqual(["Media & Entertainment"]);
+  });
+
+  test("prefers description over content:encoded", () => {
+    const [first] = parse("techcrunch");
+    expect(first.description).toStartWith("The model scored 82% on SWE-bench Verified, the company said on Sunday.");
+    expect(first.author).toBe("Kyle Wiggers");
+  });
+});
+
+describe("Atom", () => {
+  test("resolves relative links against xml:base and picks the alternate link", () => {
+    const [first, second] = parse("verge");
+    expect(first.link).toBe("https://www.theverge.com/2026/10/18/openai-new-model-agents");
+    expect(first.imageUrl).toBe("https://www.theverge.com/images/openai-model.jpg?w=1200&h=800");
+    expect(second.link).toBe("https://www.theverge.com/2026/10/17/google-gemini-update");
+  });
+
+  test("treats type=\"html\" as markup and type=\"text\" as plain text", () => {
+    const [first, second] = parse("verge");
+    expect(first.title).toBe("OpenAI’s new model & the agent hype");
+    expect(first.description).toBe("Sam Altman says it & its tools ship next week.");
+    expect(second.title).toBe("Plain-text titles keep &amp; as written");
+    expect(second.description).toBe("Gemini gets a <tag> in plain text.");
+  });
+
+  test("reads author names and category labels", () => {
+    const [first, second] = parse("verge");
+    expect(first.author).toBe("Jay Peters");
+    expect(first.categories).toEqual(["AI", "Tech"]);
+    expect(second.author).toBe("Emma Roth");
+  });
+
+  test("converts the published offset to UTC and falls back to updated", () => {
+    const [first, second] = parse("verge");
+    expect(first.publishedAt).toBe("2026-10-18T18:02:11.000Z");
+    expect(second.publishedAt).toBe("2026-10-17T09:00:00.000Z");
+  });
+});
+
+describe("RSS 1.0 (RDF)", () => {
+  test("reads namespaced items and ignores comments", () => {
+    expect(parse("slashdot")).toEqual([{
+      title: "EU Fines Meta €200 Million Over AI Training Data",
+      link: "https://tech.slashdot.org/story/26/10/18/0410203/eu-fines-meta",
+      publishedAt: "2026-10-18T10:00:00.000Z",
+      description: "An anonymous reader quotes a report: \"The fine is the largest yet,\" the regulator said.",
+      author: "msmash",
+      categories: ["eu"],
+      imageUrl: undefined,
+    }]);
+  });
+});
+
+describe("chunked parsing", () => {
+  for (const [name, { file, baseUrl }] of Object.entries(FEEDS)) {
+    test(`${name}: any chunk size gives the same items as the whole document`, () => {
+      const xml = fixture(file);
+      const whole = parseFeedXml(xml, { baseUrl });
+      expect(whole.length).toBeGreaterThan(0);
+      for (const size of [1, 7, 64, 1000]) {
+        expect(parseInChunks(xml, size, baseUrl)).toEqual(whole);
+      }
+    });
+  }
+
+  test("stops collecting at the limit", () => {
+    const parser = new FeedParser({ limit: 1 });
+    parser.write(fixture(FEEDS.cointelegraph.file));
+    expect(parser.done).toBe(true);
+    expect(parser.end().map(item => item.link)).toEqual(["https://cointelegraph.com/news/bitcoin-price-tops-120k-etf-inflows"]);
+  });
+});
+
+describe("helpers", () => {
+  test("decodeEntities handles named, decimal and hex references and leaves unknown ones", () => {
+    expect(decodeEntities("&amp;amp; &#8217; &#x20AC; &hellip; &bogus;")).toBe("&amp; ’ € … &bogus;");
+  });
+
+  test("htmlToText drops scripts, comments and tags", () => {
+    expect(htmlToText("<p>One<script>var x = 1;</script></p><!-- c --><p>Two &amp; three</p>")).toBe("One Two & three");
+  });
+
+  test("normalizeDate reads RFC 822 and ISO 8601 offsets", () => {
+    expect(normalizeDate("Sun, 18 Oct 2026 12:30:00 +0100")).toBe("2026-10-18T11:30:00.000Z");
+    expect(normalizeDate("Sat, 17 Oct 2026 23:10:00 -0500")).toBe("2026-10-18T04:10:00.000Z");
+    expect(normalizeDate("Sun, 18 Oct 2026 12:30:00 UT")).toBe("2026-10-18T12:30:00.000Z");
+    expect(normalizeDate("2026-10-18T14:02:11-0400")).toBe("2026-10-18T18:02:11.000Z");
+    expect(normalizeDate("not a date")).toBeUndefined();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, mock, test } from "bun:test";
+
+// config.ts is gitignored — stand in the business timezone the helpers read
+mock.module("../config", () => ({
+  config: { business: { timezone: "Europe/London" } },
+}));
+
+const { businessTimeZone, inClockRange, isValidTimeZone, parseClock, zonedMinuteOfDay, zonedParts, zonedTimeToUtc } = await import("../lib/time");
+
+const LONDON = "Europe/London";
+const NEW_YORK = "America/New_York";
+
+describe("zonedParts", () => {
+  // In 2026 the UK clocks go forward at 01:00 UTC on 29 March and back at 01:00 UTC on 25 October;
+  // the US ones at 07:00 UTC on 8 March and 06:00 UTC on 1 November
+  const cases: [string, string, string, string, number][] = [
+    ["2026-03-29T00:59:00Z", LONDON, "2026-03-29", "00:59", 0],
+    ["2026-03-29T01:00:00Z", LONDON, "2026-03-29", "02:00", 0],
+    ["2026-10-25T00:30:00Z", LONDON, "2026-10-25", "01:30", 0],
+    ["2026-10-25T01:30:00Z", LONDON, "2026-10-25", "01:30", 0],
+    ["2026-03-08T06:59:00Z", NEW_YORK, "2026-03-08", "01:59", 0],
+    ["2026-03-08T07:00:00Z", NEW_YORK, "2026-03-08", "03:00", 0],
+    ["2026-11-01T05:30:00Z", NEW_YORK, "2026-11-01", "01:30", 0],
+    ["2026-11-01T06:30:00Z", NEW_YORK, "2026-11-01", "01:30", 0],
+    // The local date differs from the UTC one
+    ["2026-10-19T03:30:00Z", NEW_YORK, "2026-10-18", "23:30", 0],
+    ["2026-10-19T18:45:00Z", "Asia/Kolkata", "2026-10-20", "00:15", 2],
+    ["2026-12-31T23:30:00Z", "Asia/Tokyo", "2027-01-01", "08:30", 5],
+  ];
+
+  for (const [instant, timeZone, date, clock, dayOfWeek] of cases) {
+    test(`${instant} is ${date} ${clock} in ${timeZone}`, () => {
+      const parts = zonedParts(new Date(instant), timeZone);
+      expect(parts.date).toBe(date);
+      expect(`${String(parts.hour).padStart(2, "0")}:${String(parts.minute).padStart(2, "0")}`).toBe(clock);
+      expect(parts.dayOfWeek).toBe(dayOfWeek);
+      expect(parts.dayOfMonth).toBe(Number(date.slice(8)));
+      expect(parts.month).toBe(Number(date.slice(5, 7)));
+      expect(zonedMinuteOfDay(new Date(instant), timeZone)).toBe(parseClock(clock));
+    });
+  }
+
+  test("never reports hour 24 at midnight", () => {
+    expect(zonedParts(new Date("2026-10-19T23:00:00Z"), LONDON).hour).toBe(0);
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  const cases: [string, string, string, string][] = [
+    ["summer time", LONDON, "2026-07-01 09:00", "2026-07-01T08:00:00.000Z"],
+    ["winter time", LONDON, "2026-01-15 09:00", "2026-01-15T09:00:00.000Z"],
+    ["just before the clocks go forward", LONDON, "2026-03-29 00:59", "2026-03-29T00:59:00.000Z"],
+    ["just after the clocks go forward", LONDON, "2026-03-29 03:00", "2026-03-29T02:00:00.000Z"],
+    ["a skipped time moves forward by the jump", LONDON, "2026-03-29 01:30", "2026-03-29T01:30:00.000Z"],
+    ["a repeated time takes the first occurrence", LONDON, "2026-10-25 01:30", "2026-10-25T00:30:00.000Z"],
+    ["just after the clocks go back", LONDON, "2026-10-25 02:00", "2026-10-25T02:00:00.000Z"],
+    ["a skipped time behind UTC moves forward too", NEW_YORK, "2026-03-08 02:30", "2026-03-08T07:30:00.000Z"],
+    ["a repeated time behind UTC takes the first occurrence", NEW_YORK, "2026-11-01 01:30", "2026-11-01T05:30:00.000Z"],
+    ["local midnight", NEW_YORK, "2026-10-19 00:00", "2026-10-19T04:00:00.000Z"],
+    ["a half-hour offset", "Asia/Kolkata", "2026-10-20 00:15", "2026-10-19T18:45:00.000Z"],
+  ];
+
+  for (const [name, timeZone, local, expected] of cases) {
+    test(`${name} (${timeZone} ${local})`, () => {
+      const [date, clock] = local.split(" ");
+      expect(zonedTimeToUtc(date, parseClock(clock)!, timeZone).toISOString()).toBe(expected);
+    });
+  }
+
+  test("round-trips every quarter hour of a DST-change day", () => {
+    for (let minute = 0; minute < 24 * 60; minute += 15) {
+      const instant = zonedTimeToUtc("2026-10-25", minute, LONDON);
+      expect(zonedMinuteOfDay(instant, LONDON)).toBe(minute);
+    }
+  });
+});
+
+describe("parseClock", () => {
+  const cases: Record<string, number | null> = {
+    "00:00": 0,
+    "7:05": 425,
+    "07:05": 425,
+    " 23:59 ": 1439,
+    "24:00": null,
+    "12:60": null,
+    "12:5": null,
+    "noon": null,
+    "": null,
+  };
+
+  for (const [value, expected] of Object.entries(cases)) {
+    test(`"${value}" → ${expected}`, () => {
+      expect(parseClock(value)).toBe(expected);
+    });
+  }
+});
+
+describe("inClockRange", () => {
+  const clock = (value: string) => parseClock(value)!;
+  const cases: [string, string, string, boolean][] = [
+    ["08:00", "22:00", "08:00", true],
+    ["08:00", "22:00", "21:59", true],
+    ["08:00", "22:00", "22:00", false],
+    ["08:00", "22:00", "07:59", false],
+    // Quiet hours that wrap past midnight
+    ["23:00", "07:00", "23:00", true],
+    ["23:00", "07:00", "23:59", true],
+    ["23:00", "07:00", "00:00", true],
+    ["23:00", "07:00", "06:59", true],
+    ["23:00", "07:00", "07:00", false],
+    ["23:00", "07:00", "12:00", false],
+    ["23:00", "07:00", "22:59", false],
+    // The same start and end cover the whole day
+    ["00:00", "00:00", "13:37", true],
+  ];
+
+  for (const [start, end, at, expected] of cases) {
+    test(`${at} in ${start}-${end} → ${expected}`, () => {
+      expect(inClockRange(clock(at), clock(start), clock(end))).toBe(expected);
+    });
+  }
+});
+
+describe("timezone config", () => {
+  test("businessTimeZone reads business.timezone", () => {
+    expect(businessTimeZone()).toBe(LONDON);
+  });
+
+  test("isValidTimeZone accepts IANA names and rejects anything else", () => {
+    expect(isValidTimeZone("Australia/Lord_Howe")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Europe/Londn")).toBe(false);
+    expect(isValidTimeZone("GMT+25")).toBe(false);
+  });
+});
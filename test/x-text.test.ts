@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import { MAX_TWEET_LENGTH, URL_LENGTH, extractUrls, truncateTweet, validateTweet, weightedLength } from "../lib/x-text";
+
+const LONG_URL = "https://www.coindesk.com/markets/2026/10/18/bitcoin-tops-120k-as-spot-etf-inflows-surge?utm_source=rss";
+
+describe("weightedLength", () => {
+  const cases: Record<string, [string, number]> = {
+    "ASCII letters, digits and punctuation weigh 1": ["BTC up 4.2% today!", 18],
+    "typographic quotes and dashes weigh 1": ["It’s “up” — again", 17],
+    "the ellipsis character weighs 2": ["again…", 7],
+    "a decomposed accent counts as one character": ["café", 4],
+    "CJK characters weigh 2": ["比特币", 6],
+    "Japanese kana and Korean hangul weigh 2": ["ビットコイン 비트코인", 21],
+    "a single emoji weighs 2": ["🚀", 2],
+    "an emoji with a skin tone weighs 2": ["👍🏽", 2],
+    "a ZWJ family sequence weighs 2": ["👨‍👩‍👧", 2],
+    "a flag weighs 2": ["🇬🇧", 2],
+    "each keycap weighs 2": ["1️⃣ #️⃣", 5],
+    "a long https URL weighs 23": [LONG_URL, URL_LENGTH],
+    "a short http URL weighs 23 too": ["http://t.co/x", URL_LENGTH],
+    "www. hosts and bare domains are links": ["www.example.org and coindesk.com/markets", 23 + 5 + 23],
+    "trailing punctuation is not part of the link": ["See example.com.", 4 + 23 + 1],
+    "the domain of an email address is not a link": ["me@example.com", 14],
+  };
+
+  for (const [name, [text, expected]] of Object.entries(cases)) {
+    test(name, () => {
+      expect(weightedLength(text)).toBe(expected);
+    });
+  }
+});
+
+describe("extractUrls", () => {
+  test("returns each link with its offsets", () => {
+    const text = `Read ${LONG_URL}, then www.example.org.`;
+    expect(extractUrls(text)).toEqual([
+      { url: LONG_URL, start: 5, end: 5 + LONG_URL.length },
+      { url: "www.example.org", start: LONG_URL.length + 12, end: LONG_URL.length + 27 },
+    ]);
+  });
+});
+
+describe("validateTweet", () => {
+  const cases: Record<string, [string, boolean, number]> = {
+    "exactly 280 ASCII characters": ["a".repeat(280), true, 0],
+    "281 ASCII characters": ["a".repeat(281), false, -1],
+    "140 CJK characters fill the limit": ["币".repeat(140), true, 0],
+    "140 CJK characters and one more letter": ["币".repeat(140) + "a", false, -1],
+    "140 emoji fill the limit": ["🚀".repeat(140), true, 0],
+    "257 characters and a URL": ["a".repeat(256) + " " + LONG_URL, true, 0],
+    "258 characters and a URL": ["a".repeat(257) + " " + LONG_URL, false, -1],
+  };
+
+  for (const [name, [text, valid, remaining]] of Object.entries(cases)) {
+    test(name, () => {
+      const result = validateTweet(text);
+      expect(result.valid).toBe(valid);
+      expect(result.remaining).toBe(remaining);
+      expect(result.weightedLength).toBe(MAX_TWEET_LENGTH - remaining);
+    });
+  }
+
+  test("rejects an empty or blank tweet", () => {
+    expect(validateTweet("  \n").errors).toEqual(["Tweet is empty"]);
+  });
+
+  test("reports the weighted length against the limit", () => {
+    expect(validateTweet("a".repeat(281)).errors).toEqual(["Tweet is 281/280 weighted characters"]);
+  });
+});
+
+describe("truncateTweet", () => {
+  test("leaves a tweet within the limit unchanged", () => {
+    const text = "a".repeat(278) + "🚀";
+    expect(truncateTweet(text)).toBe(text);
+  });
+
+  test("cuts at the last paragraph break when it keeps enough of the post", () => {
+    const first = "First paragraph. " + "x".repeat(200);
+    const text = `${first}\n\n${"y".repeat(200)}`;
+    expect(truncateTweet(text)).toBe(first.trim());
+  });
+
+  test("cuts at the last sentence end", () => {
+    const first = "z".repeat(200) + ".";
+    expect(truncateTweet(`${first} ${"w ".repeat(60)}`)).toBe(first);
+  });
+
+  test("falls back to the last space with an ellipsis, within the limit", () => {
+    const result = truncateTweet("word ".repeat(100));
+    expect(result).toEndWith("word...");
+    expect(weightedLength(result)).toBeLessThanOrEqual(MAX_TWEET_LENGTH);
+  });
+
+  test("never splits a URL", () => {
+    const result = truncateTweet("a".repeat(270) + " " + LONG_URL);
+    expect(result).not.toContain("https");
+    expect(weightedLength(result)).toBeLessThanOrEqual(MAX_TWEET_LENGTH);
+  });
+
+  test("never splits an emoji sequence", () => {
+    const result = truncateTweet("👨‍👩‍👧".repeat(150));
+    expect(result).toBe("👨‍👩‍👧".repeat(138) + "...");
+    expect(weightedLength(result)).toBe(279);
+  });
+
+  test("counts CJK at double weight when cutting", () => {
+    const result = truncateTweet("币".repeat(200));
+    expect(result).toBe("币".repeat(138) + "...");
+    expect(weightedLength(result)).toBe(279);
+  });
+});
@@ -6,25 +6,42 @@
 //   bun run x -- --dry-run              # X only (default)
 //   bun run x -- --fb --dry-run         # Facebook only
 //   bun run x -- --x --fb --dry-run     # Both platforms
+//   bun run x -- --thread --dry-run     # X thread (3-5 tweets) instead of a single tweet
+//   bun run x -- --ig --dry-run         # Instagram only (always generates an image)
+//   bun run x -- --x --fb --queue       # Generate + queue for approval instead of posting
+//   bun run x -- queue list pending     # Review queue (list/show/edit/approve/reject)
+//   bun run x -- publish-due            # Post approved + due scheduled items
+//   bun run x -- collect-metrics        # Snapshot likes/reposts/replies for recent posts
+//   bun run x -- daemon                 # Run forever: posting windows, quiet hours, cron jobs
 //   bun run x -- --fb --strategy value_first
+//   bun run x -- --profile autogen --fb  # Another brand from config.ts profiles
 
 import { config } from "./config";
 import { runPipeline, PipelineResult } from "./lib/pipeline";
-import { getTodayPostCount, getTodayFbPostCount } from "./lib/x-db";
-import { postTweet } from "./lib/x-poster";
+import { getPostCountLast24h } from "./lib/x-db";
+import { postTweet, postThread } from "./lib/x-poster";
 import { postToFacebook } from "./lib/fb-poster";
+import { postToInstagram } from "./lib/ig-poster";
 import { runCommentFlow } from "./lib/x-commenter";
-
-type Strategy = "value_first" | "authority_building" | "direct_sales";
-
-const STRATEGIES: Strategy[] = ["value_first", "authority_building", "direct_sales"];
+import { splitThread } from "./lib/content";
+import { enqueuePipelineResult, publishDue, runQueueCommand } from "./lib/post-queue";
+import { collectMetrics } from "./lib/metrics";
+import { selectStrategy, Strategy } from "./lib/strategy-selector";
+import { applyProfileFromArgs, getActiveProfile } from "./lib/profile";
+import { checkConfigAtStartup } from "./lib/config-check";
+import { RunLog, StepStatus } from "./lib/run-log";
+import { applySecrets, describeSecretSources } from "./lib/secrets";
+import { runDaemon } from "./lib/daemon";
 
 interface CliFlags {
   x: boolean;
   fb: boolean;
+  ig: boolean;
   "post-only": boolean;
   "comment-only": boolean;
   "dry-run": boolean;
+  queue: boolean;
+  thread: boolean;
   image: boolean;
   strategy: Strategy | null;
   keywords: string[] | null;
@@ -34,9 +51,12 @@ function parseFlags(args: string[]): CliFlags {
   const flags: CliFlags = {
     x: false,
     fb: false,
+    ig: false,
     "post-only": false,
     "comment-only": false,
     "dry-run": false,
+    queue: false,
+    thread: false,
     image: false,
     strategy: null,
     keywords: null,
@@ -46,9 +66,12 @@ function parseFlags(args: string[]): CliFlags {
     const arg = args[i];
     if (arg === "--x") flags.x = true;
     if (arg === "--fb") flags.fb = true;
+    if (arg === "--ig") flags.ig = true;
     if (arg === "--post-only") flags["post-only"] = true;
     if (arg === "--comment-only") flags["comment-only"] = true;
     if (arg === "--dry-run") flags["dry-run"] = true;
+    if (arg === "--queue") flags.queue = true;
+    if (arg === "--thread") flags.thread = true;
     if (arg === "--image") flags.image = true;
     if (arg === "--strategy" && args[i + 1]) {
       flags.strategy = args[++i] as Strategy;
@@ -59,46 +82,54 @@ function parseFlags(args: string[]): CliFlags {
   }
 
   // Default: X only if no platform flags specified
-  if (!flags.x && !flags.fb) {
+  if (!flags.x && !flags.fb && !flags.ig) {
     flags.x = true;
   }
 
   return flags;
 }
 
-function pickRandomStrategy(): Strategy {
-  return STRATEGIES[Math.floor(Math.random() * STRATEGIES.length)];
+interface FlowResult {
+  success: boolean;
+  error?: string;
+  // Why the flow did nothing (disabled, daily cap reached, ...)
+  skipped?: string;
+}
+
+function flowStatus(result: FlowResult): { status: StepStatus; data: FlowResult } {
+  return { status: result.skipped ? "skipped" : result.success ? "ok" : "error", data: result };
 }
 
 // Determine which pipeline platforms to request based on flags
 function getPipelinePlatforms(flags: CliFlags): string[] {
   const platforms: string[] = [];
-  if (flags.x) platforms.push("twitter");
+  if (flags.x) platforms.push(flags.thread ? "twitter_thread" : "twitter");
   if (flags.fb) platforms.push("facebook");
+  if (flags.ig) platforms.push("instagram");
   return platforms;
 }
 
 // === X.COM POST FLOW ===
 async function runXPostFlow(
   pipelineResult: PipelineResult
-): Promise<{ success: boolean; error?: string }> {
+): Promise<FlowResult> {
   console.log("\n=== X.COM POST FLOW ===\n");
 
   if (!config.x.enabled) {
     console.log("[SKIP] X integration is disabled in config.ts (x.enabled = false)");
-    return { success: true };
+    return { success: true, skipped: "disabled" };
   }
 
-  const currentPostCount = getTodayPostCount();
+  const currentPostCount = getPostCountLast24h("twitter");
   if (currentPostCount >= config.x.postsPerDay) {
     console.log(`[SKIP] X daily cap reached (${currentPostCount}/${config.x.postsPerDay})`);
-    return { success: true };
+    return { success: true, skipped: "daily cap reached" };
   }
 
-  console.log(`X posts today: ${currentPostCount}/${config.x.postsPerDay}`);
+  console.log(`X posts in the last 24h: ${currentPostCount}/${config.x.postsPerDay}`);
 
-  // Find twitter content from pipeline result
-  const twitterContent = pipelineResult.content.find(c => c.platform === "twitter");
+  // Find twitter content (single tweet or thread) from pipeline result
+  const twitterContent = pipelineResult.content.find(c => c.platform === "twitter" || c.platform === "twitter_thread");
   if (!twitterContent) {
     console.error("No Twitter content generated");
     return { success: false, error: "No Twitter content generated" };
@@ -106,9 +137,15 @@ async function runXPostFlow(
 
   const imagePath = pipelineResult.currentPost?.imagePath ?? null;
 
-  console.log(`Post: ${twitterContent.text.substring(0, 100)}...`);
-
-  const result = await postTweet(twitterContent.text, imagePath);
+  let result: { success: boolean; error?: string };
+  if (twitterContent.platform === "twitter_thread") {
+    const tweets = splitThread(twitterContent.text);
+    console.log(`Thread (${tweets.length} tweets): ${tweets[0].substring(0, 100)}...`);
+    result = await postThread(tweets, imagePath, twitterContent.strategy, twitterContent.sourceUrl);
+  } else {
+    console.log(`Post: ${twitterContent.text.substring(0, 100)}...`);
+    result = await postTweet(twitterContent.text, imagePath, twitterContent.strategy, twitterContent.sourceUrl);
+  }
 
   if (result.success) {
     console.log("X post flow complete!");
@@ -122,21 +159,21 @@ async function runXPostFlow(
 // === FACEBOOK POST FLOW ===
 async function runFbPostFlow(
   pipelineResult: PipelineResult
-): Promise<{ success: boolean; error?: string }> {
+): Promise<FlowResult> {
   console.log("\n=== FACEBOOK POST FLOW ===\n");
 
   if (!config.facebook.enabled) {
     console.log("[SKIP] Facebook is disabled in config.ts (facebook.enabled = false)");
-    return { success: true };
+    return { success: true, skipped: "disabled" };
   }
 
-  const currentFbCount = getTodayFbPostCount();
+  const currentFbCount = getPostCountLast24h("facebook");
   if (currentFbCount >= config.facebook.postsPerDay) {
     console.log(`[SKIP] Facebook daily cap reached (${currentFbCount}/${config.facebook.postsPerDay})`);
-    return { success: true };
+    return { success: true, skipped: "daily cap reached" };
   }
 
-  console.log(`Facebook posts today: ${currentFbCount}/${config.facebook.postsPerDay}`);
+  console.log(`Facebook posts in the last 24h: ${currentFbCount}/${config.facebook.postsPerDay}`);
 
   // Find facebook content from pipeline result
   const fbContent = pipelineResult.content.find(c => c.platform === "facebook");
@@ -149,7 +186,7 @@ async function runFbPostFlow(
 
   console.log(`Post: ${fbContent.text.substring(0, 100)}...`);
 
-  const result = await postToFacebook(fbContent.text, imagePath);
+  const result = await postToFacebook(fbContent.text, imagePath, fbContent.strategy, fbContent.sourceUrl);
 
   if (result.success) {
     console.log("Facebook post flow complete!");
@@ -160,34 +197,171 @@ async function runFbPostFlow(
   }
 }
 
+// === INSTAGRAM POST FLOW ===
+async function runIgPostFlow(
+  pipelineResult: PipelineResult
+): Promise<FlowResult> {
+  console.log("\n=== INSTAGRAM POST FLOW ===\n");
+
+  if (!config.instagram.enabled) {
+    console.log("[SKIP] Instagram is disabled in config.ts (instagram.enabled = false)");
+    return { success: true, skipped: "disabled" };
+  }
+
+  const currentIgCount = getPostCountLast24h("instagram");
+  if (currentIgCount >= config.instagram.postsPerDay) {
+    console.log(`[SKIP] Instagram daily cap reached (${currentIgCount}/${config.instagram.postsPerDay})`);
+    return { success: true, skipped: "daily cap reached" };
+  }
+
+  console.log(`Instagram posts in the last 24h: ${currentIgCount}/${config.instagram.postsPerDay}`);
+
+  // Find instagram content from pipeline result
+  const igContent = pipelineResult.content.find(c => c.platform === "instagram");
+  if (!igContent) {
+    console.error("No Instagram content generated");
+    return { success: false, error: "No Instagram content generated" };
+  }
+
+  // Image generation is forced for --ig runs, but it can still fail (missing Runware key, API error)
+  const imagePath = pipelineResult.currentPost?.imagePath ?? null;
+  if (!imagePath) {
+    console.log("[SKIP] No image generated — Instagram requires an image (check image.runwareApiKey)");
+    return { success: true, skipped: "no image" };
+  }
+
+  console.log(`Post: ${igContent.text.substring(0, 100)}...`);
+
+  const result = await postToInstagram(igContent.text, imagePath, igContent.strategy, igContent.sourceUrl);
+
+  if (result.success) {
+    console.log("Instagram post flow complete!");
+    return { success: true };
+  } else {
+    console.error(`Instagram post failed: ${result.error}`);
+    return { success: false, error: result.error };
+  }
+}
+
+// Apply dry-run override to all platform configs
+function applyDryRun(): void {
+  if (!config.x.dryRun) {
+    (config.x as any).dryRun = true;
+  }
+  if (!config.facebook.dryRun) {
+    (config.facebook as any).dryRun = true;
+  }
+  if (!config.instagram.dryRun) {
+    (config.instagram as any).dryRun = true;
+  }
+  console.log("[DRY-RUN] Enabled via CLI flag");
+}
+
+// === PUBLISH DUE (queue) ===
+async function runPublishDue(runLog: RunLog): Promise<never> {
+  console.log("=".repeat(50));
+  console.log("Publishing due queue items");
+  console.log("=".repeat(50));
+
+  const result = await runLog.timed("publish_due", publishDue, r => ({
+    status: r.errors.length > 0 ? "error" : r.posted === 0 ? "empty" : "ok",
+    data: r,
+  }));
+
+  console.log(`\nPosted: ${result.posted} | Skipped: ${result.skipped} | Failed: ${result.errors.length}`);
+  if (result.errors.length > 0) {
+    console.log(`Errors: ${result.errors.join(", ")}`);
+  }
+
+  const hasAuthError = result.errors.some(e => e.includes("Auth") || e.includes("check config"));
+  process.exit(hasAuthError ? 1 : 0);
+}
+
+// === COLLECT METRICS ===
+async function runCollectMetrics(days: number, runLog: RunLog): Promise<never> {
+  console.log("=".repeat(50));
+  console.log(`Collecting engagement metrics (last ${days} days)`);
+  console.log("=".repeat(50));
+
+  const result = await runLog.timed("collect_metrics", () => collectMetrics(days), r => ({
+    status: r.errors.length > 0 ? "error" : r.collected === 0 ? "empty" : "ok",
+    data: r,
+  }));
+
+  const perPlatform = Object.entries(result.byPlatform).map(([p, n]) => `${p}=${n}`).join(", ");
+  console.log(`\nCollected: ${result.collected}${perPlatform ? ` (${perPlatform})` : ""} | Not found: ${result.missing} | Errors: ${result.errors.length}`);
+  if (result.errors.length > 0) {
+    console.log(`Errors: ${result.errors.join(", ")}`);
+  }
+
+  const hasAuthError = result.errors.some(e => e.includes("Auth") || e.includes("check config") || e.includes("credentials"));
+  process.exit(hasAuthError ? 1 : 0);
+}
+
 async function main() {
-  const flags = parseFlags(process.argv);
-  const strategy = flags.strategy || pickRandomStrategy();
+  let args = process.argv.slice(2).filter(a => a !== "--");
+
+  // Profile first — it decides which DB, caps and credentials everything below uses
+  try {
+    args = applyProfileFromArgs(args);
+    applySecrets();
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
+
+  // Queue subcommands — no pipeline, no jitter
+  if (args[0] === "queue") {
+    process.exit(runQueueCommand(args.slice(1)));
+  }
+
+  const startTime = Date.now();
+  const runLog = new RunLog("tg");
+  describeSecretSources(false).forEach(line => console.log(`[SECRETS] ${line}`));
+
+  // Dry-run goes first — it relaxes the credential checks in the config validation
+  if (args.includes("--dry-run")) {
+    applyDryRun();
+  }
+  if (!checkConfigAtStartup({ imageRequired: args.includes("--image") || args.includes("--ig") })) {
+    process.exit(1);
+  }
+
+  if (args[0] === "publish-due") {
+    await runPublishDue(runLog);
+  }
+  if (args[0] === "daemon") {
+    await runDaemon();
+    process.exit(0);
+  }
+  if (args[0] === "collect-metrics") {
+    const daysIndex = args.indexOf("--days");
+    const days = daysIndex !== -1 ? Number(args[daysIndex + 1]) : 14;
+    await runCollectMetrics(Number.isFinite(days) && days > 0 ? days : 14, runLog);
+  }
+
+  const flags = parseFlags(args);
   const platforms = getPipelinePlatforms(flags);
+  const choice = flags.strategy ? null : selectStrategy(platforms);
+  const strategy = flags.strategy || choice!.strategy;
+  const strategyReason = choice ? choice.reason : "set via --strategy";
 
   console.log("=".repeat(50));
   console.log("Social Media Auto-Posting Integration");
   console.log("=".repeat(50));
+  if (getActiveProfile()) console.log(`Profile: ${getActiveProfile()} (${config.business.name})`);
   console.log(`Platforms: ${platforms.join(", ")}`);
-  console.log(`Mode: ${flags["post-only"] ? "POST-ONLY" : flags["comment-only"] ? "COMMENT-ONLY" : "FULL"}`);
-  console.log(`Strategy: ${strategy}${!flags.strategy ? " (random)" : ""}`);
+  console.log(`Mode: ${flags["post-only"] ? "POST-ONLY" : flags["comment-only"] ? "COMMENT-ONLY" : "FULL"}${flags.queue ? " (QUEUE — posts wait for approval)" : ""}`);
+  console.log(`Strategy: ${strategy}${choice ? ` (${choice.mode})` : ""}`);
+  if (choice?.mode === "bandit") console.log(`  ${choice.reason}`);
   console.log(`Dry run: ${flags["dry-run"] ? "YES" : "NO"}`);
+  console.log(`Run ID: ${runLog.runId}`);
   if (flags.image) console.log(`Image: FORCED via --image flag`);
+  else if (flags.ig) console.log(`Image: FORCED (Instagram requires an image)`);
   if (flags.keywords) console.log(`Keywords: ${flags.keywords.join(", ")} (override)`);
 
-  // Apply dry-run override to all platform configs
-  if (flags["dry-run"]) {
-    if (!config.x.dryRun) {
-      (config.x as any).dryRun = true;
-    }
-    if (!config.facebook.dryRun) {
-      (config.facebook as any).dryRun = true;
-    }
-    console.log("[DRY-RUN] Enabled via CLI flag");
-  }
-
-  // Jitter — adds organic randomness so posts don't look bot-like
-  if (config.schedule.jitterMinutes && config.schedule.jitterMinutes > 0 && !flags["dry-run"]) {
+  // Jitter — adds organic randomness so posts don't look bot-like (nothing goes live in queue mode)
+  if (config.schedule.jitterMinutes && config.schedule.jitterMinutes > 0 && !flags["dry-run"] && !flags.queue) {
     const jitterSecs = (Math.floor(Math.random() * config.schedule.jitterMinutes) + 1) * 60;
     console.log(`[JITTER] Waiting ${jitterSecs}s (${Math.floor(jitterSecs/60)}m) before posting...`);
 
@@ -200,9 +374,11 @@ async function main() {
 
   let xSuccess = true;
   let fbSuccess = true;
+  let igSuccess = true;
   let commentSuccess = true;
   let xError: string | undefined;
   let fbError: string | undefined;
+  let igError: string | undefined;
   let commentError: string | undefined;
 
   // Run post flows (unless comment-only)
@@ -212,37 +388,55 @@ async function main() {
     const pipelineResult: PipelineResult = await runPipeline({
       platforms,
       strategy,
+      strategyReason,
       keywords: flags.keywords || undefined,
       quiet: false,
-      forceImage: flags.image,
+      forceImage: flags.image || flags.ig,
+      runId: runLog.runId,
     });
 
     if (pipelineResult.status === "error") {
       console.error(`Pipeline error: ${pipelineResult.error}`);
       xSuccess = false;
       fbSuccess = false;
+      igSuccess = false;
       xError = pipelineResult.error;
       fbError = pipelineResult.error;
+      igError = pipelineResult.error;
+    } else if (flags.queue) {
+      const ids = await enqueuePipelineResult(pipelineResult);
+      runLog.step("queue", ids.length > 0 ? "ok" : "empty", { ids });
+      console.log(`\nQueued ${ids.length} post(s) for approval: ${ids.map(id => `#${id}`).join(", ")}`);
+      console.log(`Review with: bun run tg -- queue list pending`);
     } else {
       // Post to each platform
       if (flags.x) {
-        const xResult = await runXPostFlow(pipelineResult);
+        const xResult = await runLog.timed("post.twitter", () => runXPostFlow(pipelineResult), flowStatus);
         xSuccess = xResult.success;
         xError = xResult.error;
       }
 
       if (flags.fb) {
-        const fbResult = await runFbPostFlow(pipelineResult);
+        const fbResult = await runLog.timed("post.facebook", () => runFbPostFlow(pipelineResult), flowStatus);
         fbSuccess = fbResult.success;
         fbError = fbResult.error;
       }
+
+      if (flags.ig) {
+        const igResult = await runLog.timed("post.instagram", () => runIgPostFlow(pipelineResult), flowStatus);
+        igSuccess = igResult.success;
+        igError = igResult.error;
+      }
     }
   }
 
   // Run comment flow (X.com only, unless post-only or fb-only)
   if (flags.x && !flags["post-only"] && !flags["comment-only"]) {
     console.log("\n");
-    const commentResult = await runCommentFlow();
+    const commentResult = await runLog.timed("comment", runCommentFlow, r => ({
+      status: !r.success ? "error" : r.commentsPosted === 0 ? "empty" : "ok",
+      data: r,
+    }));
     commentSuccess = commentResult.success;
     if (commentResult.errors.length > 0) {
       commentError = commentResult.errors.join(", ");
@@ -260,13 +454,17 @@ async function main() {
   if (flags.fb && !flags["comment-only"]) {
     console.log(`Facebook post flow: ${fbSuccess ? "SUCCESS" : "FAILED"}${fbError ? ` - ${fbError}` : ""}`);
   }
+  if (flags.ig && !flags["comment-only"]) {
+    console.log(`Instagram post flow: ${igSuccess ? "SUCCESS" : "FAILED"}${igError ? ` - ${igError}` : ""}`);
+  }
   if (flags.x && !flags["post-only"]) {
     console.log(`Comment flow: ${commentSuccess ? "SUCCESS" : "FAILED"}${commentError ? ` - ${commentError}` : ""}`);
   }
 
   // Exit codes
-  const allErrors = [xError, fbError, commentError].filter(Boolean);
+  const allErrors = [xError, fbError, igError, commentError].filter(Boolean);
   const hasAuthError = allErrors.some(e => e?.includes("Auth") || e?.includes("check config"));
+  runLog.step("run", allErrors.length > 0 ? "error" : "ok", { platforms, strategy, errors: allErrors }, Date.now() - startTime);
 
   if (hasAuthError) {
     console.log("\n[EXIT 1] Auth error - check config.ts keys");